@@ -1,23 +1,110 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { SUPPORTED_LANGUAGES, APP_CONFIG } from './constants';
-import { TranslationStatus, Language } from './types';
-import { translateText, translateTextStream, translateDocument, generateSpeech, decodeGeminiPCM, getAIInstance, createAudioBlob } from './services/geminiService';
-import { Modality, LiveServerMessage } from '@google/genai';
-import mammoth from 'mammoth';
+import { TranslationStatus, Language, LanguagePrefs, TranslationMemoryMatch, GlossaryTerm, GlossaryViolation, Segment, SegmentTranslation, DocumentJob, TranslationHistoryEntry, MultiTargetResult, TranslationStyle, TranslationAlternative, SegmentQuality, ConversationTurn, SpeechSettings, DictationUtterance, ScannedPage, TranscriptionSession } from './types';
+import { decodeGeminiPCM } from './services/geminiService';
+import { getTranslationProvider } from './services/translationProvider';
+import { lookupExact, isReusableEntry, findFuzzyMatches, addTranslationMemoryEntry, addDocumentToTranslationMemory, addTranslationPairsToMemory, countTranslationMemoryEntries, exportTMX, importTMX } from './services/translationMemory';
+import { getGlossaryTerms, createGlossaryTerm, saveGlossaryTerm, deleteGlossaryTerm, checkGlossary, findViolationRanges, exportGlossaryCSV, exportGlossaryTBX, importGlossaryCSV, importGlossaryTBX } from './services/glossary';
+import { segmentText, joinSegments } from './services/segmentation';
+import { extractDocxSegments, rebuildDocx, DOCX_MIME_TYPE } from './services/docxService';
+import { parseSubtitles, serializeSubtitles, getSubtitleSegments, subtitleFormatFromFileName, SUBTITLE_MIME_TYPES } from './services/subtitles';
+import { extractLocalizationSegments, rebuildLocalization, localizationFormatFromFileName, LOCALIZATION_MIME_TYPES } from './services/localization';
+import { createHistoryEntry, getHistoryEntries, saveHistoryEntry, deleteHistoryEntry, clearHistory, exportHistoryCSV, exportHistoryJSON } from './services/history';
+import { translateToMany, exportFanOutJSON, exportFanOutZip } from './services/fanOut';
+import { startLiveListener, LiveListener, Utterance } from './services/liveListener';
+import { loadDictation, saveDictation, cleanTranscript, punctuateUtterance, exportDictationSRT, exportDictationText } from './services/dictation';
+import { startAudioCapture, listAudioInputDevices, AudioCapture } from './services/audioCapture';
+import { loadPairStyles, savePairStyles, getPairStyle, stylePairKey } from './services/translationStyle';
+import { loadSpeechSettings, saveSpeechSettings, getSpeechOptions, synthesizeSpeech, speechCacheKey, encodeWav } from './services/speech';
+import { checkSegmentQuality, isRiskySegment, backTranslateSegments } from './services/qualityCheck';
+import { protectPlaceholders, isOnlyPlaceholders, restorePlaceholders, restorePartialPlaceholders, restorePlaceholdersStrict, PlaceholderMismatchError, ProtectedText, TEXT_PLACEHOLDER_PATTERN } from './services/placeholders';
+import { createDocumentJob, runDocumentJob, getResumableJob, deleteDocumentJob, assembleTextJob, splitParagraphs } from './services/documentJobs';
+import { ServiceError, errorMessage } from './services/errors';
+import { toSupportedLanguage, getTextDirection, loadLanguagePrefs, saveLanguagePrefs, addRecentLanguage, togglePinnedLanguage } from './services/languages';
+import { identifyLanguage, suggestSourceLanguage, resolveSourceLanguage } from './services/languageId';
+import { isImageFile, loadImagePage, loadScannedPdfPages, pageImageData, exportPagesAsPdf, exportPageAsPng, PageImage } from './services/scannedDocument';
+import { extractPdfText, hasTextLayer, PdfText } from './services/pdfService';
+import { downloadFile, baseFileName } from './utils/download';
+import { decodeTextFile } from './utils/encoding';
+import TranslationMemoryPanel from './components/TranslationMemoryPanel';
+import GlossaryPanel, { GlossaryExportFormat } from './components/GlossaryPanel';
+import HighlightedText from './components/HighlightedText';
+import BilingualView from './components/BilingualView';
+import DocumentJobProgress from './components/DocumentJobProgress';
+import HistoryPanel, { HistoryExportFormat } from './components/HistoryPanel';
+import MultiTargetPanel, { FanOutExportFormat } from './components/MultiTargetPanel';
+import StyleControls from './components/StyleControls';
+import AlternativesList from './components/AlternativesList';
+import QualityPanel from './components/QualityPanel';
+import ConversationView from './components/ConversationView';
+import DictationView, { DictationExportFormat } from './components/DictationView';
+import AudioInputControls from './components/AudioInputControls';
+import SpeechControls, { SpeechPlaybackState } from './components/SpeechControls';
+import LanguageDetectionHint from './components/LanguageDetectionHint';
+import LanguagePicker from './components/LanguagePicker';
+import ScannedPagePreview from './components/ScannedPagePreview';
+
+const provider = getTranslationProvider();
+
+// A selection inside a single segment of the target panel, as character offsets into its translation
+interface SelectedPhrase {
+  segmentId: string;
+  start: number;
+  end: number;
+}
+
+// Running streams hold on to the owners object, so it is emptied rather than replaced;
+// a fresh object would leave them believing they still own their texts
+const releaseSegmentOwners = (owners: Record<string, number>) => {
+  Object.keys(owners).forEach(text => delete owners[text]);
+};
+
+const segmentElement = (node: Node | null) =>
+  (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>('[data-segment-id]') || null;
+
+const locatePhrase = (range: Range): SelectedPhrase | null => {
+  const element = segmentElement(range.startContainer);
+  if (!element || element !== segmentElement(range.endContainer)) return null;
+  const before = document.createRange();
+  before.selectNodeContents(element);
+  before.setEnd(range.startContainer, range.startOffset);
+  const raw = range.toString();
+  const start = before.toString().length + raw.length - raw.trimStart().length;
+  return { segmentId: element.dataset.segmentId!, start, end: start + raw.trim().length };
+};
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'text' | 'document'>('text');
+  const [activeTab, setActiveTab] = useState<'text' | 'document' | 'conversation' | 'dictation'>('text');
   const [sourceText, setSourceText] = useState('');
-  const [targetText, setTargetText] = useState('');
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [segmentTranslations, setSegmentTranslations] = useState<Record<string, SegmentTranslation>>({});
+  const [hoveredSegmentId, setHoveredSegmentId] = useState<string | null>(null);
+  const [showBilingual, setShowBilingual] = useState(false);
+  const [showQuality, setShowQuality] = useState(false);
+  // Back-translations keyed by segment id, valid only while the translation still reads `target`
+  const [backTranslations, setBackTranslations] = useState<Record<string, { target: string; text: string }>>({});
+  const [isBackTranslating, setIsBackTranslating] = useState(false);
   const [sourceLang, setSourceLang] = useState('auto');
   const [targetLang, setTargetLang] = useState('es');
   const [status, setStatus] = useState<TranslationStatus>(TranslationStatus.IDLE);
   const [detectedLang, setDetectedLang] = useState('');
   const [confidence, setConfidence] = useState<number>(0);
+  // Pinned and recently used languages at the top of the language pickers
+  const [languagePrefs, setLanguagePrefs] = useState(loadLanguagePrefs);
+  // "sourceLang>suggested" pair the user chose to keep, so the same prompt doesn't come back
+  const [dismissedSuggestion, setDismissedSuggestion] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  // Which panel is being read aloud
+  const [speakingPanel, setSpeakingPanel] = useState<'source' | 'target' | null>(null);
+  const [isSpeechPaused, setIsSpeechPaused] = useState(false);
+  const [exportingSpeechPanel, setExportingSpeechPanel] = useState<'source' | 'target' | null>(null);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(loadSpeechSettings);
   const [isRecording, setIsRecording] = useState(false);
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
+  // Empty means the system default microphone
+  const [audioDeviceId, setAudioDeviceId] = useState(() => localStorage.getItem('lingoai_audio_device') || '');
+  const [inputLevel, setInputLevel] = useState(0);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
 
   // Undo/Redo states
@@ -29,27 +116,359 @@ const App: React.FC = () => {
   const [isDocumentProcessing, setIsDocumentProcessing] = useState(false);
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
   const [translatedDocContent, setTranslatedDocContent] = useState<string | null>(null);
+  // Rebuilt binary output for formats that round-trip (DOCX); null means plain text download
+  const [translatedDocFile, setTranslatedDocFile] = useState<Blob | null>(null);
+  const [documentEncoding, setDocumentEncoding] = useState<string | null>(null);
+  // Chunked job currently shown, and an unfinished one left over from an earlier session
+  const [documentJob, setDocumentJob] = useState<DocumentJob | null>(null);
+  const [resumableJob, setResumableJob] = useState<DocumentJob | null>(null);
+  // Shown with the finished document, e.g. strings left untranslated
+  const [documentNotice, setDocumentNotice] = useState<string | null>(null);
+  // Photos and scanned PDFs, kept with the language they were translated into for the overlay
+  const [scannedDocument, setScannedDocument] = useState<{ pages: ScannedPage[]; targetLang: string } | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isExportingScan, setIsExportingScan] = useState(false);
+  const [subtitleCharsPerLine, setSubtitleCharsPerLine] = useState(
+    () => Number(localStorage.getItem('lingoai_subtitle_cpl')) || APP_CONFIG.SUBTITLE_CHARS_PER_LINE
+  );
 
   // Selection Translation States
-  const [selection, setSelection] = useState<{ text: string, x: number, y: number } | null>(null);
+  const [selection, setSelection] = useState<{ text: string, x: number, y: number, phrase: SelectedPhrase | null } | null>(null);
   const [selectionTargetLang, setSelectionTargetLang] = useState('en');
   const [selectionResult, setSelectionResult] = useState<string | null>(null);
   const [isTranslatingSelection, setIsTranslatingSelection] = useState(false);
+  const [alternatives, setAlternatives] = useState<TranslationAlternative[] | null>(null);
+  const [alternativeCount, setAlternativeCount] = useState(APP_CONFIG.ALTERNATIVES_COUNT);
+  const [isLoadingAlternatives, setIsLoadingAlternatives] = useState(false);
+  const [alternativesError, setAlternativesError] = useState<string | null>(null);
+
+  // Translation Memory States
+  const [tmEntryCount, setTmEntryCount] = useState(0);
+
+  // Glossary States
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [glossaryTerms, setGlossaryTerms] = useState<GlossaryTerm[]>([]);
+
+  // Formality, tone and domain, remembered per language pair
+  const [pairStyles, setPairStyles] = useState<Record<string, TranslationStyle>>(loadPairStyles);
+  const translationStyle = getPairStyle(pairStyles, sourceLang, targetLang);
+
+  // Translation History States (persisted; unrelated to the undo stack above)
+  const [showHistory, setShowHistory] = useState(false);
+  const [translationHistory, setTranslationHistory] = useState<TranslationHistoryEntry[]>([]);
+
+  // Multi-target States
+  const [multiTargetMode, setMultiTargetMode] = useState(false);
+  const [multiTargets, setMultiTargets] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('lingoai_multi_targets') || '') as string[];
+    } catch {
+      return ['es', 'fr', 'de'];
+    }
+  });
+  const [multiResults, setMultiResults] = useState<MultiTargetResult[]>([]);
+  const [multiSourceText, setMultiSourceText] = useState('');
+  const [isFanningOut, setIsFanningOut] = useState(false);
+
+  // Conversation States
+  const [conversationLangs, setConversationLangs] = useState<[string, string]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('lingoai_conversation_langs') || '') as [string, string];
+    } catch {
+      return ['en', 'es'];
+    }
+  });
+  const [conversationTurns, setConversationTurns] = useState<ConversationTurn[]>([]);
+  const [conversationPartial, setConversationPartial] = useState('');
+  const [isConversing, setIsConversing] = useState(false);
+  const [isStartingConversation, setIsStartingConversation] = useState(false);
+  const [conversationAutoSpeak, setConversationAutoSpeak] = useState(true);
+  const [dictationLang, setDictationLang] = useState(() => localStorage.getItem('lingoai_dictation_lang') || 'auto');
+  const [dictationUtterances, setDictationUtterances] = useState<DictationUtterance[]>(loadDictation);
+  const [dictationPartial, setDictationPartial] = useState('');
+  const [isDictating, setIsDictating] = useState(false);
+  const [isStartingDictation, setIsStartingDictation] = useState(false);
   
   // Refs
   const typingTimeoutRef = useRef<number | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const speechAbortRef = useRef<AbortController | null>(null);
+  // Audio from the last finished playback, reused when the same text is downloaded
+  const speechCacheRef = useRef<{ key: string; chunks: ArrayBuffer[] } | null>(null);
   const targetAreaRef = useRef<HTMLDivElement>(null);
+  const selectionPopoverRef = useRef<HTMLDivElement>(null);
+  const conversationRef = useRef<LiveListener | null>(null);
+  // Translations are spoken one after another, never over each other
+  const speechQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Aborted when the conversation stops, which silences the current and any queued translations
+  const conversationSpeechRef = useRef(new AbortController());
+  // The listener outlives renders, so it calls the latest handler through this ref
+  const conversationHandlerRef = useRef<(text: string) => void>(() => {});
+  const dictationRef = useRef<LiveListener | null>(null);
+  const dictationHandlerRef = useRef<(utterance: Utterance) => void>(() => {});
+  // Wall-clock start of the current recording and where it sits on the transcript timeline
+  const dictationClockRef = useRef({ startedAt: 0, offset: 0 });
   const activeStreamRef = useRef<number>(0);
+
+  // Incremental translation refs. Segments are matched by their text so unchanged
+  // sentences keep their translation (or in-flight stream) across edits.
+  const segmentsRef = useRef<Segment[]>([]);
+  const segmentCacheRef = useRef<{ key: string; byText: Record<string, SegmentTranslation> }>({ key: '', byText: {} });
+  const segmentOwnersRef = useRef<Record<string, number>>({});
+  // Source language the current text is filed under in the translation memory; '' while unknown
+  const memorySourceLangRef = useRef('');
+  const segmentStreamRef = useRef<number>(0);
+  const segmentStreamsRef = useRef<Map<number, Promise<void>>>(new Map());
   
   // Voice Input Refs
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const liveSessionPromiseRef = useRef<Promise<any> | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const liveSessionRef = useRef<TranscriptionSession | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+
+  const documentAbortRef = useRef<AbortController | null>(null);
+  const ocrAbortRef = useRef<AbortController | null>(null);
+  const fanOutAbortRef = useRef<AbortController | null>(null);
+  // History entry for the current editing session, updated as the text changes
+  const historySessionRef = useRef<TranslationHistoryEntry | null>(null);
+
+  const refreshTmCount = useCallback(() => {
+    countTranslationMemoryEntries()
+      .then(setTmEntryCount)
+      .catch(err => console.error('Translation memory unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    refreshTmCount();
+  }, [refreshTmCount]);
+
+  const reloadHistory = useCallback(() => {
+    getHistoryEntries()
+      .then(setTranslationHistory)
+      .catch(err => console.error('Translation history unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    reloadHistory();
+  }, [reloadHistory]);
+
+  useEffect(() => {
+    getResumableJob()
+      .then(setResumableJob)
+      .catch(err => console.error('Document jobs unavailable:', err));
+  }, []);
+
+  const reloadGlossary = useCallback(() => {
+    getGlossaryTerms(sourceLang, targetLang)
+      .then(setGlossaryTerms)
+      .catch(err => console.error('Glossary unavailable:', err));
+  }, [sourceLang, targetLang]);
+
+  useEffect(() => {
+    reloadGlossary();
+  }, [reloadGlossary]);
+
+  const updateLanguagePrefs = useCallback((update: (prefs: LanguagePrefs) => LanguagePrefs) => {
+    setLanguagePrefs(prev => {
+      const next = update(prev);
+      saveLanguagePrefs(next);
+      return next;
+    });
+  }, []);
+
+  const handleSourceLangChange = useCallback((code: string) => {
+    setSourceLang(code);
+    updateLanguagePrefs(prefs => addRecentLanguage(prefs, code));
+  }, [updateLanguagePrefs]);
+
+  const handleTargetLangChange = useCallback((code: string) => {
+    setTargetLang(code);
+    updateLanguagePrefs(prefs => addRecentLanguage(prefs, code));
+  }, [updateLanguagePrefs]);
+
+  const handleTogglePinnedLanguage = useCallback((code: string) => {
+    updateLanguagePrefs(prefs => togglePinnedLanguage(prefs, code));
+  }, [updateLanguagePrefs]);
+
+  const handleStyleChange = useCallback((style: TranslationStyle) => {
+    setPairStyles(prev => {
+      const next = { ...prev, [stylePairKey(sourceLang, targetLang)]: style };
+      savePairStyles(next);
+      return next;
+    });
+  }, [sourceLang, targetLang]);
+
+  const targetText = useMemo(
+    () => joinSegments(segments, segmentTranslations),
+    [segments, segmentTranslations]
+  );
+
+  const glossaryViolationsBySegment = useMemo(() => {
+    const result: Record<string, GlossaryViolation[]> = {};
+    segments.forEach(s => {
+      const t = segmentTranslations[s.id];
+      if (t?.status === 'done') result[s.id] = checkGlossary(t.source, t.target, glossaryTerms);
+    });
+    return result;
+  }, [segments, segmentTranslations, glossaryTerms]);
+
+  const glossaryViolations = useMemo(
+    () => Array.from(new Map(
+      segments.flatMap(s => glossaryViolationsBySegment[s.id] || []).map(v => [v.term.id, v] as const)
+    ).values()),
+    [segments, glossaryViolationsBySegment]
+  );
+
+  // Instant, offline detection while typing; the provider's detection replaces it once a translation arrives
+  const languageCandidates = useMemo(() => identifyLanguage(sourceText), [sourceText]);
+  const localSourceLang = languageCandidates[0]?.confidence >= APP_CONFIG.LANGUAGE_ID_SUGGEST_CONFIDENCE
+    ? languageCandidates[0].language
+    : '';
+  const sourceSuggestion = suggestSourceLanguage(sourceText, languageCandidates, sourceLang);
+  const showSourceSuggestion = sourceSuggestion !== null && dismissedSuggestion !== `${sourceLang}>${sourceSuggestion}`;
+
+  // Back-translation needs a concrete source language; restored history entries may hold a name
+  const qaSourceLang = sourceLang !== 'auto' ? sourceLang : toSupportedLanguage(detectedLang) || localSourceLang;
+  const detectedLangName = SUPPORTED_LANGUAGES.find(l => l.code === qaSourceLang)?.name || detectedLang;
+
+  const qualityBySegment = useMemo(() => {
+    const result: Record<string, SegmentQuality> = {};
+    if (!showQuality) return result;
+    const keepTerms = glossaryTerms.filter(t => t.doNotTranslate).map(t => t.source);
+    segments.forEach(s => {
+      const t = segmentTranslations[s.id];
+      if (t?.status !== 'done' || !t.target) return;
+      const back = backTranslations[s.id];
+      result[s.id] = checkSegmentQuality({
+        source: t.source,
+        target: t.target,
+        backTranslation: back?.target === t.target ? back.text : null,
+        sourceLang: qaSourceLang || 'auto',
+        targetLang,
+        keepTerms
+      });
+    });
+    return result;
+  }, [showQuality, segments, segmentTranslations, backTranslations, glossaryTerms, qaSourceLang, targetLang]);
+
+  useEffect(() => {
+    setBackTranslations({});
+  }, [sourceLang, targetLang]);
+
+  const tmExactHit = segments.length > 0 && segments.every(s => segmentTranslations[s.id]?.origin === 'memory');
+
+  // Fuzzy suggestions follow the hovered segment, falling back to the first one that has any
+  const tmSegment = segments.find(s => s.id === hoveredSegmentId && segmentTranslations[s.id]?.fuzzyMatches.length)
+    || segments.find(s => segmentTranslations[s.id]?.fuzzyMatches.length);
+  const tmMatches = tmSegment ? segmentTranslations[tmSegment.id].fuzzyMatches : [];
+
+  const updateSegmentTranslation = useCallback((id: string, patch: Partial<SegmentTranslation>) => {
+    setSegmentTranslations(prev => (prev[id] ? { ...prev, [id]: { ...prev[id], ...patch } } : prev));
+  }, []);
+
+  // Applies a patch to every current segment with the given source text (duplicates share a stream)
+  const updateSegmentsByText = useCallback((text: string, patch: Partial<SegmentTranslation>) => {
+    setSegmentTranslations(prev => {
+      const next = { ...prev };
+      segmentsRef.current
+        .filter(segment => segment.text === text && next[segment.id])
+        .forEach(segment => {
+          next[segment.id] = { ...next[segment.id], ...patch };
+        });
+      return next;
+    });
+  }, []);
+
+  const cacheSegment = useCallback((translation: SegmentTranslation) => {
+    segmentCacheRef.current.byText[translation.source] = translation;
+  }, []);
+
+  const storeSegmentInMemory = useCallback((source: string, target: string) => {
+    addTranslationMemoryEntry(source, target, memorySourceLangRef.current, targetLang, translationStyle)
+      .then(refreshTmCount)
+      .catch(err => console.error('Failed to store translation memory entry:', err));
+  }, [targetLang, translationStyle, refreshTmCount]);
+
+  // Streams provider output for the given segments. A segment is only updated while this
+  // stream still owns its text, so edits cancel individual segments rather than the request.
+  const streamSegments = useCallback((pending: Segment[]): Promise<void> => {
+    const streamId = ++segmentStreamRef.current;
+    const owners = segmentOwnersRef.current;
+    pending.forEach(segment => {
+      owners[segment.text] = streamId;
+    });
+    const ownsAny = () => pending.some(segment => owners[segment.text] === streamId);
+
+    const run = async () => {
+      const textById: Record<string, string> = {};
+      // Variables, markup and code travel as opaque <xN/> tokens
+      const protectedById: Record<string, ProtectedText> = {};
+      pending.forEach(segment => {
+        textById[segment.id] = segment.text;
+        protectedById[segment.id] = protectPlaceholders(segment.text, TEXT_PLACEHOLDER_PATTERN);
+      });
+
+      try {
+        const stream = provider.translateSegmentsStream(
+          pending.map(segment => ({ id: segment.id, text: protectedById[segment.id].text })),
+          sourceLang,
+          targetLang,
+          {
+            glossary: glossaryTerms,
+            style: translationStyle,
+            // Detection arrives with the translation; a superseded stream no longer speaks for the text
+            onDetection: detection => {
+              if (!ownsAny()) return;
+              setDetectedLang(detection.language);
+              setConfidence(detection.confidence);
+              if (detection.language) memorySourceLangRef.current = detection.language;
+            }
+          }
+        );
+        for await (const update of stream) {
+          const text = textById[update.id];
+          if (!text || owners[text] !== streamId) {
+            if (!ownsAny()) return; // Every segment was edited away or superseded
+            continue;
+          }
+          const { tokens } = protectedById[update.id];
+          if (!update.done) {
+            updateSegmentsByText(text, { target: restorePartialPlaceholders(update.text, tokens), status: 'translating' });
+            continue;
+          }
+          delete owners[text];
+          try {
+            const patch = { target: restorePlaceholdersStrict(update.text, tokens), status: 'done' } as const;
+            updateSegmentsByText(text, patch);
+            cacheSegment({ id: update.id, source: text, ...patch, origin: 'provider', fuzzyMatches: [] });
+            storeSegmentInMemory(text, patch.target);
+          } catch (err: any) {
+            if (!(err instanceof PlaceholderMismatchError)) throw err;
+            // The damaged translation stays visible, flagged for retranslation and kept out of the cache
+            updateSegmentsByText(text, { target: restorePlaceholders(update.text, tokens).text, status: 'error' });
+            setError(err.message);
+          }
+        }
+      } finally {
+        // Anything the provider skipped is flagged so it can be retranslated individually
+        pending.forEach(segment => {
+          if (owners[segment.text] !== streamId) return;
+          delete owners[segment.text];
+          updateSegmentsByText(segment.text, { status: 'error' });
+        });
+        segmentStreamsRef.current.delete(streamId);
+      }
+    };
+
+    const promise = run();
+    segmentStreamsRef.current.set(streamId, promise.catch(() => {}));
+    return promise;
+  }, [sourceLang, targetLang, glossaryTerms, translationStyle, updateSegmentsByText, cacheSegment, storeSegmentInMemory]);
 
   const handleTranslate = useCallback(async (text: string) => {
     if (!text.trim()) {
-      setTargetText('');
+      setSegments([]);
+      setSegmentTranslations({});
+      segmentsRef.current = [];
+      releaseSegmentOwners(segmentOwnersRef.current);
       setDetectedLang('');
       setConfidence(0);
       return;
@@ -58,35 +477,338 @@ const App: React.FC = () => {
     const streamId = ++activeStreamRef.current;
     setStatus(TranslationStatus.LOADING);
     setError(null);
-    setTargetText(''); // Clear for streaming start
-    
-    try {
-      let fullText = '';
-      const stream = translateTextStream(text, sourceLang, targetLang);
-      
-      for await (const chunk of stream) {
-        if (streamId !== activeStreamRef.current) return; // Abort if newer request
-        fullText += chunk;
-        setTargetText(fullText);
-      }
-      
-      // After streaming text, do a final structured call to get detected language and confidence
-      // only if source is set to auto or we need accuracy data.
-      if (sourceLang === 'auto') {
-        const result = await translateText(text, sourceLang, targetLang);
-        if (streamId !== activeStreamRef.current) return;
-        setDetectedLang(result.detectedLanguage);
-        setConfidence(result.confidence);
-      }
 
+    // Cached translations are only valid for the pair, glossary and style they were made with
+    const styleKey = `${translationStyle.formality},${translationStyle.tone},${translationStyle.domain}`;
+    const cacheKey = `${sourceLang}|${targetLang}|${styleKey}|${glossaryTerms.map(t => `${t.id}=${t.target}`).join(',')}`;
+    if (segmentCacheRef.current.key !== cacheKey) {
+      segmentCacheRef.current = { key: cacheKey, byText: {} };
+      releaseSegmentOwners(segmentOwnersRef.current);
+    }
+    const cache = segmentCacheRef.current.byText;
+    const owners = segmentOwnersRef.current;
+    const memorySourceLang = resolveSourceLanguage(sourceLang, text);
+    memorySourceLangRef.current = memorySourceLang;
+
+    const nextSegments = segmentText(text, sourceLang);
+    const nextTexts = new Set(nextSegments.map(segment => segment.text));
+
+    // Code blocks and comments on their own are kept as they are without asking the provider
+    nextSegments.forEach(segment => {
+      if (cache[segment.text] || !isOnlyPlaceholders(segment.text, TEXT_PLACEHOLDER_PATTERN)) return;
+      cache[segment.text] = { id: segment.id, source: segment.text, target: segment.text, status: 'done', origin: 'provider', fuzzyMatches: [] };
+    });
+
+    // Segment-level cancellation: streams stop applying output for sentences that were edited away
+    Object.keys(owners).forEach(ownedText => {
+      if (!nextTexts.has(ownedText)) delete owners[ownedText];
+    });
+
+    const inFlight = (segment: Segment) => owners[segment.text] !== undefined;
+    const uncached = nextSegments.filter(segment => !cache[segment.text] && !inFlight(segment));
+
+    // Serve exact translation memory hits instantly without calling the provider, unless
+    // they were made in another style or contradict the glossary
+    const memoryHits = await Promise.all(
+      uncached.map(segment => lookupExact(segment.text, memorySourceLang, targetLang).catch(() => null))
+    );
+    if (streamId !== activeStreamRef.current) return;
+
+    const fromMemory: Record<string, string> = {};
+    uncached.forEach((segment, i) => {
+      const hit = memoryHits[i];
+      if (hit && isReusableEntry(hit, translationStyle, glossaryTerms)) fromMemory[segment.text] = hit.targetText;
+    });
+
+    // Each distinct new or modified sentence is sent once
+    const pending = uncached.filter((segment, i) =>
+      !fromMemory[segment.text] && uncached.findIndex(other => other.text === segment.text) === i
+    );
+    const ownersToAwait = new Set(nextSegments.filter(inFlight).map(segment => owners[segment.text]));
+
+    segmentsRef.current = nextSegments;
+    setSegments(nextSegments);
+    setSegmentTranslations(prev => {
+      const previousByText: Record<string, SegmentTranslation> = {};
+      Object.keys(prev).forEach(id => {
+        previousByText[prev[id].source] = prev[id];
+      });
+
+      const next: Record<string, SegmentTranslation> = {};
+      nextSegments.forEach(segment => {
+        const base = { id: segment.id, source: segment.text, fuzzyMatches: [] };
+        if (cache[segment.text]) {
+          next[segment.id] = { ...cache[segment.text], id: segment.id };
+        } else if (inFlight(segment)) {
+          next[segment.id] = { ...(previousByText[segment.text] || { ...base, target: '', origin: 'provider' }), id: segment.id, status: 'translating' };
+        } else if (fromMemory[segment.text]) {
+          next[segment.id] = { ...base, target: fromMemory[segment.text], status: 'done', origin: 'memory' };
+        } else {
+          next[segment.id] = { ...base, target: '', status: 'pending', origin: 'provider' };
+        }
+      });
+      return next;
+    });
+
+    Object.keys(fromMemory).forEach(source => cacheSegment({
+      id: source, source, target: fromMemory[source], status: 'done', origin: 'memory', fuzzyMatches: []
+    }));
+
+    pending.forEach(segment => {
+      findFuzzyMatches(segment.text, memorySourceLang, targetLang)
+        .then(matches => {
+          if (streamId === activeStreamRef.current && matches.length) {
+            updateSegmentsByText(segment.text, { fuzzyMatches: matches });
+          }
+        })
+        .catch(() => {});
+    });
+
+    try {
+      await Promise.all([
+        pending.length > 0 ? streamSegments(pending) : Promise.resolve(),
+        ...Array.from(ownersToAwait).map(owner => segmentStreamsRef.current.get(owner))
+      ]);
+      if (streamId !== activeStreamRef.current) return;
       setStatus(TranslationStatus.SUCCESS);
     } catch (err: any) {
       if (streamId !== activeStreamRef.current) return;
       console.error(err);
-      setError(err.message || 'Translation failed. Please try again.');
+      setError(errorMessage(err, 'Translation failed. Please try again.'));
       setStatus(TranslationStatus.ERROR);
     }
-  }, [sourceLang, targetLang]);
+  }, [sourceLang, targetLang, glossaryTerms, translationStyle, streamSegments, updateSegmentsByText, cacheSegment]);
+
+  const handleRetranslateSegment = useCallback(async (id: string) => {
+    const segment = segments.find(s => s.id === id);
+    if (!segment) return;
+    delete segmentCacheRef.current.byText[segment.text];
+    updateSegmentsByText(segment.text, { target: '', status: 'translating', origin: 'provider' });
+    try {
+      await streamSegments([segment]);
+    } catch (err: any) {
+      console.error('Segment retranslation failed:', err);
+    }
+  }, [segments, streamSegments, updateSegmentsByText]);
+
+  const handleEditSegment = useCallback((id: string, target: string) => {
+    const translation = segmentTranslations[id];
+    if (!translation) return;
+    delete segmentOwnersRef.current[translation.source];
+    updateSegmentTranslation(id, { target, status: 'done', origin: 'manual' });
+    cacheSegment({ ...translation, target, status: 'done', origin: 'manual', fuzzyMatches: [] });
+    storeSegmentInMemory(translation.source, target);
+  }, [segmentTranslations, updateSegmentTranslation, cacheSegment, storeSegmentInMemory]);
+
+  const handleBackTranslate = useCallback(async () => {
+    if (!qaSourceLang) return;
+    const pending = segments
+      .map(s => segmentTranslations[s.id])
+      .filter(t => t?.status === 'done' && t.target && backTranslations[t.id]?.target !== t.target)
+      .map(t => ({ id: t.id, text: t.target }));
+    setIsBackTranslating(true);
+    try {
+      const result = await backTranslateSegments(pending, targetLang, qaSourceLang, provider);
+      setBackTranslations(prev => {
+        const next = { ...prev };
+        pending.forEach(p => {
+          if (result[p.id]) next[p.id] = { target: p.text, text: result[p.id] };
+        });
+        return next;
+      });
+    } catch (err: any) {
+      console.error('Back-translation failed:', err);
+      setError(errorMessage(err, 'Failed to back-translate the translation.'));
+    } finally {
+      setIsBackTranslating(false);
+    }
+  }, [qaSourceLang, targetLang, segments, segmentTranslations, backTranslations]);
+
+  const handleApplyTmMatch = useCallback((match: TranslationMemoryMatch) => {
+    if (!tmSegment) return;
+    const translation: SegmentTranslation = {
+      id: tmSegment.id,
+      source: tmSegment.text,
+      target: match.entry.targetText,
+      status: 'done',
+      origin: 'memory',
+      fuzzyMatches: []
+    };
+    delete segmentOwnersRef.current[tmSegment.text];
+    updateSegmentTranslation(tmSegment.id, translation);
+    cacheSegment(translation);
+  }, [tmSegment, updateSegmentTranslation, cacheSegment]);
+
+  const handleExportTm = useCallback(async () => {
+    try {
+      downloadFile(await exportTMX(), 'lingoai_memory.tmx', 'application/x-tmx+xml');
+    } catch (err: any) {
+      console.error('TMX export failed:', err);
+      setError(err.message || 'Failed to export translation memory.');
+    }
+  }, []);
+
+  const handleImportTm = useCallback(async (file: File) => {
+    try {
+      await importTMX(await file.text());
+      refreshTmCount();
+    } catch (err: any) {
+      console.error('TMX import failed:', err);
+      setError(err.message || 'Failed to import translation memory.');
+    }
+  }, [refreshTmCount]);
+
+  const handleAddGlossaryTerm = useCallback(async (fields: Omit<GlossaryTerm, 'id' | 'createdAt'>) => {
+    try {
+      await saveGlossaryTerm(createGlossaryTerm(fields));
+      reloadGlossary();
+    } catch (err: any) {
+      console.error('Failed to save glossary term:', err);
+      setError(err.message || 'Failed to save glossary term.');
+    }
+  }, [reloadGlossary]);
+
+  const handleDeleteGlossaryTerm = useCallback(async (id: string) => {
+    try {
+      await deleteGlossaryTerm(id);
+      reloadGlossary();
+    } catch (err: any) {
+      console.error('Failed to delete glossary term:', err);
+    }
+  }, [reloadGlossary]);
+
+  const handleImportGlossary = useCallback(async (file: File) => {
+    try {
+      const content = await file.text();
+      const defaultSource = sourceLang === 'auto' ? 'en' : sourceLang;
+      if (/\.csv$/i.test(file.name)) {
+        await importGlossaryCSV(content, defaultSource, targetLang);
+      } else {
+        await importGlossaryTBX(content);
+      }
+      reloadGlossary();
+    } catch (err: any) {
+      console.error('Glossary import failed:', err);
+      setError(err.message || 'Failed to import glossary.');
+    }
+  }, [sourceLang, targetLang, reloadGlossary]);
+
+  const handleExportGlossary = useCallback((format: GlossaryExportFormat) => {
+    const fileName = `lingoai_glossary_${sourceLang}-${targetLang}.${format}`;
+    if (format === 'csv') {
+      downloadFile(exportGlossaryCSV(glossaryTerms), fileName, 'text/csv');
+    } else {
+      downloadFile(exportGlossaryTBX(glossaryTerms), fileName, 'application/x-tbx+xml');
+    }
+  }, [sourceLang, targetLang, glossaryTerms]);
+
+  const handleRestoreHistory = useCallback((entry: TranslationHistoryEntry) => {
+    // Further edits of the restored text update this entry instead of adding a copy
+    historySessionRef.current = { ...entry, updatedAt: Date.now() };
+    setActiveTab('text');
+    setSourceLang(entry.sourceLang);
+    setTargetLang(entry.targetLang);
+    setSourceText(entry.sourceText);
+  }, []);
+
+  const handleToggleHistoryFavorite = useCallback(async (entry: TranslationHistoryEntry) => {
+    const updated = { ...entry, favorite: !entry.favorite };
+    if (historySessionRef.current?.id === entry.id) historySessionRef.current = updated;
+    try {
+      await saveHistoryEntry(updated);
+      reloadHistory();
+    } catch (err: any) {
+      console.error('Failed to update history entry:', err);
+    }
+  }, [reloadHistory]);
+
+  const handleDeleteHistoryEntry = useCallback(async (id: string) => {
+    if (historySessionRef.current?.id === id) historySessionRef.current = null;
+    try {
+      await deleteHistoryEntry(id);
+      reloadHistory();
+    } catch (err: any) {
+      console.error('Failed to delete history entry:', err);
+    }
+  }, [reloadHistory]);
+
+  const handleClearHistory = useCallback(async () => {
+    if (!window.confirm('Delete all history entries except favorites?')) return;
+    historySessionRef.current = null;
+    try {
+      await clearHistory();
+      reloadHistory();
+    } catch (err: any) {
+      console.error('Failed to clear history:', err);
+      setError(err.message || 'Failed to clear history.');
+    }
+  }, [reloadHistory]);
+
+  const handleExportHistory = useCallback((format: HistoryExportFormat, entries: TranslationHistoryEntry[]) => {
+    if (format === 'csv') {
+      downloadFile(exportHistoryCSV(entries), 'lingoai_history.csv', 'text/csv');
+    } else {
+      downloadFile(exportHistoryJSON(entries), 'lingoai_history.json', 'application/json');
+    }
+  }, []);
+
+  const handleToggleMultiTarget = useCallback((lang: string) => {
+    setMultiTargets(prev => {
+      const next = prev.includes(lang) ? prev.filter(l => l !== lang) : [...prev, lang];
+      localStorage.setItem('lingoai_multi_targets', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const handleFanOut = useCallback(async () => {
+    if (!sourceText.trim() || multiTargets.length === 0) return;
+    fanOutAbortRef.current?.abort();
+    const controller = new AbortController();
+    fanOutAbortRef.current = controller;
+
+    setIsFanningOut(true);
+    setMultiSourceText(sourceText);
+    setMultiResults(multiTargets.map(lang => ({ lang, text: '', status: 'pending' })));
+    try {
+      await translateToMany(sourceText, sourceLang, multiTargets, provider, {
+        signal: controller.signal,
+        getOptions: async lang => ({
+          glossary: await getGlossaryTerms(sourceLang, lang).catch(() => []),
+          style: getPairStyle(pairStyles, sourceLang, lang)
+        }),
+        onUpdate: result => {
+          if (controller.signal.aborted) return;
+          setMultiResults(prev => prev.map(r => (r.lang === result.lang ? result : r)));
+        }
+      });
+    } finally {
+      if (fanOutAbortRef.current === controller) {
+        fanOutAbortRef.current = null;
+        setIsFanningOut(false);
+      }
+    }
+  }, [sourceText, sourceLang, multiTargets, pairStyles]);
+
+  const handleCancelFanOut = useCallback(() => {
+    fanOutAbortRef.current?.abort();
+    fanOutAbortRef.current = null;
+    setIsFanningOut(false);
+    // Languages that never started are dropped; partial ones keep what streamed in
+    setMultiResults(prev => prev.filter(r => r.status !== 'pending').map(r => (r.status === 'translating' ? { ...r, status: 'error', error: 'Cancelled.' } : r)));
+  }, []);
+
+  const handleExportFanOut = useCallback(async (format: FanOutExportFormat) => {
+    try {
+      if (format === 'json') {
+        downloadFile(exportFanOutJSON(multiResults), 'lingoai_translations.json', 'application/json');
+      } else {
+        downloadFile(await exportFanOutZip(multiResults), 'lingoai_translations.zip', 'application/zip');
+      }
+    } catch (err: any) {
+      console.error('Bundle export failed:', err);
+      setError(err.message || 'Failed to export translations.');
+    }
+  }, [multiResults]);
 
   // Undo / Redo logic
   const handleUndo = useCallback(() => {
@@ -150,6 +872,33 @@ const App: React.FC = () => {
     }
   }, [sourceText, activeTab]);
 
+  // Record finished translations. Consecutive edits of the same text update one
+  // entry, so history holds results rather than every keystroke.
+  useEffect(() => {
+    if (activeTab !== 'text' || status !== TranslationStatus.SUCCESS) return;
+    if (!sourceText.trim() || !targetText.trim()) return;
+
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      const current = historySessionRef.current;
+      if (current && current.sourceText === sourceText && current.targetText === targetText) return;
+
+      const continues = current &&
+        current.sourceLang === sourceLang &&
+        current.targetLang === targetLang &&
+        now - current.updatedAt < APP_CONFIG.HISTORY_SESSION_GAP_MS;
+      const base = continues ? current : createHistoryEntry({ sourceText, targetText, sourceLang, targetLang, detectedLang, confidence });
+      const entry = { ...base, sourceText, targetText, detectedLang, confidence, updatedAt: now };
+
+      historySessionRef.current = entry;
+      saveHistoryEntry(entry)
+        .then(reloadHistory)
+        .catch(err => console.error('Failed to save translation history:', err));
+    }, APP_CONFIG.HISTORY_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [activeTab, status, sourceText, targetText, sourceLang, targetLang, detectedLang, confidence, reloadHistory]);
+
   // Debounced translation effect - Faster for real-time feel
   useEffect(() => {
     if (activeTab !== 'text') return;
@@ -160,7 +909,10 @@ const App: React.FC = () => {
         handleTranslate(sourceText);
       }, 300); // Fast 300ms debounce
     } else if (sourceText.length === 0) {
-      setTargetText('');
+      setSegments([]);
+      setSegmentTranslations({});
+      segmentsRef.current = [];
+      releaseSegmentOwners(segmentOwnersRef.current);
       setDetectedLang('');
       setConfidence(0);
       setStatus(TranslationStatus.IDLE);
@@ -178,12 +930,14 @@ const App: React.FC = () => {
     setSourceLang(prevTarget);
     setTargetLang(prevSource);
     setSourceText(targetText);
-    setTargetText(sourceText);
-  }, [sourceLang, targetLang, sourceText, targetText]);
+  }, [sourceLang, targetLang, targetText]);
 
   const handleClear = useCallback(() => {
     setSourceText('');
-    setTargetText('');
+    setSegments([]);
+    setSegmentTranslations({});
+    segmentsRef.current = [];
+    releaseSegmentOwners(segmentOwnersRef.current);
     setDetectedLang('');
     setConfidence(0);
     setError(null);
@@ -191,160 +945,358 @@ const App: React.FC = () => {
     setSelection(null);
     setUploadedFileName(null);
     setTranslatedDocContent(null);
+    setTranslatedDocFile(null);
+    setDocumentNotice(null);
+    setScannedDocument(null);
+    setDocumentJob(null);
+    historySessionRef.current = null;
     localStorage.removeItem('lingoai_source_text');
   }, []);
 
+  const resetDocumentOutput = (fileName: string) => {
+    setUploadedFileName(fileName);
+    setTranslatedDocContent(null);
+    setTranslatedDocFile(null);
+    setDocumentNotice(null);
+    setScannedDocument(null);
+    setError(null);
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    setUploadedFileName(file.name);
-    setTranslatedDocContent(null);
-    setError(null);
-
+    resetDocumentOutput(file.name);
     if (activeTab === 'text') {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const content = event.target?.result as string;
-        setSourceText(content);
-      };
-      reader.readAsText(file);
+      setSourceText(decodeTextFile(await file.arrayBuffer()).text);
     } else {
       await handleDocumentModeFile(file);
     }
   };
 
+  // Documents translated with "Detect language" are filed under the language identified on-device
+  const storeDocumentInMemory = (source: string, translated: string, src: string = sourceLang, tgt: string = targetLang) => {
+    addDocumentToTranslationMemory(source, translated, resolveSourceLanguage(src, source), tgt, getPairStyle(pairStyles, src, tgt))
+      .then(refreshTmCount)
+      .catch(err => console.error('Failed to store document in translation memory:', err));
+  };
+
+  const storePairsInMemory = (pairs: { source: string; target: string }[], src: string, tgt: string) => {
+    addTranslationPairsToMemory(pairs, resolveSourceLanguage(src, pairs.map(p => p.source).join('\n')), tgt, getPairStyle(pairStyles, src, tgt))
+      .then(refreshTmCount)
+      .catch(err => console.error('Failed to store document in translation memory:', err));
+  };
+
+  const finishDocumentJob = async (job: DocumentJob) => {
+    if (job.kind === 'docx' && job.file) {
+      const result = await rebuildDocx(await job.file.arrayBuffer(), job.translations);
+      setTranslatedDocFile(result.blob);
+      setTranslatedDocContent(result.text);
+      storeDocumentInMemory(result.sourceText, result.text, job.sourceLang, job.targetLang);
+    } else if (job.kind === 'subtitles') {
+      const subtitles = parseSubtitles(job.sourceText, subtitleFormatFromFileName(job.fileName) || 'srt');
+      setTranslatedDocContent(serializeSubtitles(subtitles, job.translations, subtitleCharsPerLine));
+      storePairsInMemory(job.segments.map(s => ({ source: s.text, target: job.translations[s.id] || '' })), job.sourceLang, job.targetLang);
+    } else if (job.kind === 'localization') {
+      const result = rebuildLocalization(job.sourceText, localizationFormatFromFileName(job.fileName)!, job.translations, job.targetLang);
+      setTranslatedDocContent(result.text);
+      if (result.keptSource.length > 0) {
+        setDocumentNotice(`${result.keptSource.length} string(s) kept in the source language because placeholders were lost: ${result.keptSource.slice(0, 5).join(', ')}${result.keptSource.length > 5 ? ', ...' : ''}`);
+      }
+      storePairsInMemory(result.pairs, job.sourceLang, job.targetLang);
+    } else {
+      const translated = assembleTextJob(job);
+      setTranslatedDocContent(translated);
+      storeDocumentInMemory(job.sourceText, translated, job.sourceLang, job.targetLang);
+    }
+    setDocumentJob(null);
+    deleteDocumentJob(job.id).catch(err => console.error('Failed to delete document job:', err));
+  };
+
+  // Runs (or resumes) a chunked job. Cancelling pauses it; failed chunks stay
+  // on screen so they can be retried without redoing the finished ones.
+  const runDocumentModeJob = async (job: DocumentJob) => {
+    const controller = new AbortController();
+    documentAbortRef.current = controller;
+    setIsDocumentProcessing(true);
+    setResumableJob(null);
+    setUploadedFileName(job.fileName);
+    setDocumentJob(job);
+    setError(null);
+
+    try {
+      // Resumed jobs may belong to another language pair than the one selected now
+      const glossary = await getGlossaryTerms(job.sourceLang, job.targetLang);
+      const style = getPairStyle(pairStyles, job.sourceLang, job.targetLang);
+      const result = await runDocumentJob(job, provider, { glossary, style }, {
+        signal: controller.signal,
+        onProgress: setDocumentJob
+      });
+
+      if (result.status === 'completed') {
+        await finishDocumentJob(result);
+      } else if (result.status === 'paused') {
+        setDocumentJob(null);
+        setResumableJob(result);
+      }
+    } catch (err: any) {
+      console.error('Document job failed:', err);
+      setError(errorMessage(err, 'Failed to translate document.'));
+    } finally {
+      if (documentAbortRef.current === controller) documentAbortRef.current = null;
+      setIsDocumentProcessing(false);
+    }
+  };
+
+  const handleCancelDocumentJob = () => {
+    documentAbortRef.current?.abort();
+  };
+
+  const handleDiscardDocumentJob = (job: DocumentJob) => {
+    setDocumentJob(null);
+    setResumableJob(null);
+    deleteDocumentJob(job.id).catch(err => console.error('Failed to delete document job:', err));
+  };
+
+  const scannedPagesText = (pages: ScannedPage[]) =>
+    pages.map(page => page.blocks.map(b => b.translatedText).join('\n')).join('\n\n');
+
+  // One request per page; the blocks come back with their position on the page.
+  // Cancelling or a failed page keeps the pages translated so far.
+  const translateScannedPages = async (images: PageImage[]) => {
+    const controller = new AbortController();
+    ocrAbortRef.current = controller;
+    const aborted = new Promise<null>(resolve => controller.signal.addEventListener('abort', () => resolve(null), { once: true }));
+    const pages: ScannedPage[] = [];
+    let failure: string | null = null;
+    try {
+      for (const [index, image] of images.entries()) {
+        setOcrProgress({ done: index, total: images.length });
+        const { data, mimeType } = pageImageData(image);
+        const request = provider.translateImage(data, mimeType, sourceLang, targetLang, { glossary: glossaryTerms, style: translationStyle });
+        // The request itself can't be aborted; its result is dropped once cancelled
+        request.catch(() => {});
+        const blocks = await Promise.race([request, aborted]);
+        if (!blocks) break;
+        pages.push({ ...image, blocks });
+      }
+    } catch (err: any) {
+      if (pages.length === 0) throw err;
+      console.error('Page translation failed:', err);
+      failure = errorMessage(err, 'Translation failed.');
+    } finally {
+      if (ocrAbortRef.current === controller) ocrAbortRef.current = null;
+    }
+    if (pages.length === 0) return;
+
+    setScannedDocument({ pages, targetLang });
+    setTranslatedDocContent(scannedPagesText(pages));
+    if (pages.length < images.length) {
+      const remaining = pages.length + 1 === images.length ? `Page ${images.length} was` : `Pages ${pages.length + 1}-${images.length} were`;
+      setDocumentNotice(`${remaining} not translated ${failure ? `because translation failed: ${failure}` : 'because translation was cancelled.'}`);
+    } else if (pages.every(page => page.blocks.length === 0)) {
+      setDocumentNotice('No text was found. Try a sharper photo taken straight on.');
+    }
+    storePairsInMemory(pages.flatMap(page => page.blocks.map(b => ({ source: b.sourceText, target: b.translatedText }))), sourceLang, targetLang);
+  };
+
+  const handleCancelOcr = () => {
+    ocrAbortRef.current?.abort();
+  };
+
+  const handleScannedBlockChange = (pageIndex: number, blockId: string, translatedText: string) => {
+    if (!scannedDocument) return;
+    const pages = scannedDocument.pages.map((page, index) =>
+      index !== pageIndex ? page : { ...page, blocks: page.blocks.map(b => (b.id === blockId ? { ...b, translatedText } : b)) }
+    );
+    setScannedDocument({ ...scannedDocument, pages });
+    setTranslatedDocContent(scannedPagesText(pages));
+  };
+
+  const exportScannedDocument = async (render: (scan: { pages: ScannedPage[]; targetLang: string }) => Promise<Blob>, fileSuffix: string) => {
+    if (!scannedDocument) return;
+    setIsExportingScan(true);
+    try {
+      const blob = await render(scannedDocument);
+      downloadFile(blob, `translated_${baseFileName(uploadedFileName)}${fileSuffix}`, blob.type);
+    } catch (err) {
+      console.error('Failed to export scanned document:', err);
+      setError('Failed to export the translated pages.');
+    } finally {
+      setIsExportingScan(false);
+    }
+  };
+
   const handleDocumentModeFile = async (file: File) => {
     setIsDocumentProcessing(true);
+    setDocumentEncoding(null);
     try {
-      let contentBase64 = '';
-      let mimeType = file.type;
-
-      if (mimeType === 'application/pdf') {
-        const reader = new FileReader();
-        contentBase64 = await new Promise((resolve) => {
-          reader.onload = () => resolve((reader.result as string).split(',')[1]);
-          reader.readAsDataURL(file);
-        });
-      } else if (mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || file.name.endsWith('.docx')) {
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        const textContent = result.value;
-        const translated = await translateDocument(btoa(textContent), 'text/plain', sourceLang, targetLang);
-        setTranslatedDocContent(translated);
-        setIsDocumentProcessing(false);
+      // Digital PDFs are translated from their text layer; scans go through OCR
+      let scannedImages: PageImage[] | null = isImageFile(file) ? [await loadImagePage(file)] : null;
+      let pdfText: PdfText | null = null;
+      if (file.type === 'application/pdf') {
+        const data = await file.arrayBuffer();
+        pdfText = await extractPdfText(data);
+        if (!hasTextLayer(pdfText)) scannedImages = await loadScannedPdfPages(data);
+      }
+      if (scannedImages) {
+        await translateScannedPages(scannedImages);
         return;
-      } else if (mimeType === 'text/plain' || mimeType === 'text/markdown') {
-        const reader = new FileReader();
-        contentBase64 = await new Promise((resolve) => {
-          reader.onload = () => resolve(btoa(reader.result as string));
-          reader.readAsText(file);
+      }
+
+      let job: DocumentJob;
+      const subtitleFormat = subtitleFormatFromFileName(file.name);
+      if (pdfText) {
+        job = await createDocumentJob({
+          fileName: file.name,
+          kind: 'text',
+          sourceLang,
+          targetLang,
+          segments: splitParagraphs(pdfText.text),
+          sourceText: pdfText.text
+        });
+      } else if (subtitleFormat) {
+        const decoded = decodeTextFile(await file.arrayBuffer());
+        setDocumentEncoding(decoded.encoding);
+        job = await createDocumentJob({
+          fileName: file.name,
+          kind: 'subtitles',
+          sourceLang,
+          targetLang,
+          segments: getSubtitleSegments(parseSubtitles(decoded.text, subtitleFormat)),
+          sourceText: decoded.text
+        });
+      } else if (localizationFormatFromFileName(file.name)) {
+        const decoded = decodeTextFile(await file.arrayBuffer());
+        setDocumentEncoding(decoded.encoding);
+        job = await createDocumentJob({
+          fileName: file.name,
+          kind: 'localization',
+          sourceLang,
+          targetLang,
+          segments: extractLocalizationSegments(decoded.text, localizationFormatFromFileName(file.name)!),
+          sourceText: decoded.text
+        });
+      } else if (file.type === DOCX_MIME_TYPE || file.name.endsWith('.docx')) {
+        const { segments, sourceText } = await extractDocxSegments(await file.arrayBuffer());
+        job = await createDocumentJob({
+          fileName: file.name,
+          kind: 'docx',
+          sourceLang,
+          targetLang,
+          segments: segments.map(s => ({ ...s, trailing: '' })),
+          sourceText,
+          file
+        });
+      } else if (file.type === 'text/plain' || file.type === 'text/markdown' || /\.(txt|md)$/i.test(file.name)) {
+        // Legacy encodings are decoded here; the model only ever sees UTF-8 text
+        const decoded = decodeTextFile(await file.arrayBuffer());
+        setDocumentEncoding(decoded.encoding);
+        job = await createDocumentJob({
+          fileName: file.name,
+          kind: 'text',
+          sourceLang,
+          targetLang,
+          segments: splitParagraphs(decoded.text),
+          sourceText: decoded.text
         });
       } else {
-        throw new Error('Unsupported file type. Please upload a PDF, DOCX, or TXT file.');
+        throw new ServiceError('unsupported_file');
       }
 
-      const translated = await translateDocument(contentBase64, mimeType || 'text/plain', sourceLang, targetLang);
-      setTranslatedDocContent(translated);
+      await runDocumentModeJob(job);
     } catch (err: any) {
       console.error('Document error:', err);
-      setError(err.message || 'Failed to translate document.');
+      setError(errorMessage(err, 'Failed to translate document.'));
     } finally {
+      setOcrProgress(null);
       setIsDocumentProcessing(false);
     }
   };
 
+  // Subtitle and localization files are returned in the format they were uploaded in
+  const documentOutput = useMemo(() => {
+    if (translatedDocFile) return { extension: 'docx', mimeType: DOCX_MIME_TYPE };
+    const extension = uploadedFileName?.match(/\.([a-z]+)$/i)?.[1].toLowerCase() || 'txt';
+    const subtitleFormat = subtitleFormatFromFileName(uploadedFileName);
+    if (subtitleFormat) return { extension, mimeType: SUBTITLE_MIME_TYPES[subtitleFormat] };
+    const localizationFormat = localizationFormatFromFileName(uploadedFileName);
+    if (localizationFormat) return { extension, mimeType: LOCALIZATION_MIME_TYPES[localizationFormat] };
+    return { extension: 'txt', mimeType: 'text/plain' };
+  }, [translatedDocFile, uploadedFileName]);
+
   const handleDownload = () => {
-    if (!translatedDocContent) return;
-    const blob = new Blob([translatedDocContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `translated_${uploadedFileName?.split('.')[0] || 'document'}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const content = translatedDocFile || translatedDocContent;
+    if (!content) return;
+    downloadFile(content, `translated_${baseFileName(uploadedFileName)}.${documentOutput.extension}`, documentOutput.mimeType);
   };
 
   // Voice Input Logic
-  const stopVoiceInput = useCallback(async () => {
-    if (liveSessionPromiseRef.current) {
-      const session = await liveSessionPromiseRef.current;
-      session.close();
-      liveSessionPromiseRef.current = null;
-    }
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
-    }
-    if (inputAudioContextRef.current) {
-      inputAudioContextRef.current.close();
-      inputAudioContextRef.current = null;
-    }
-    const nodes = (window as any)._voiceNodes;
-    if (nodes) {
-      nodes.source.disconnect();
-      nodes.scriptProcessor.disconnect();
-      delete (window as any)._voiceNodes;
+  const refreshAudioDevices = useCallback(async () => {
+    try {
+      setAudioDevices(await listAudioInputDevices());
+    } catch (err) {
+      console.error('Listing microphones failed:', err);
     }
+  }, []);
+
+  useEffect(() => {
+    refreshAudioDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshAudioDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshAudioDevices);
+  }, [refreshAudioDevices]);
+
+  const handleAudioDeviceChange = (deviceId: string) => {
+    setAudioDeviceId(deviceId);
+    localStorage.setItem('lingoai_audio_device', deviceId);
+  };
+
+  // A saved microphone that is no longer connected is forgotten once capture falls back to the default one
+  const forgetAudioDevice = useCallback(() => {
+    setAudioDeviceId('');
+    localStorage.removeItem('lingoai_audio_device');
+  }, []);
+
+  // Rounded so the meter re-renders only on visible changes
+  const updateInputLevel = useCallback((level: number) => setInputLevel(Math.round(level * 20) / 20), []);
+
+  const stopVoiceInput = useCallback(async () => {
+    const session = liveSessionRef.current;
+    const capture = captureRef.current;
+    liveSessionRef.current = null;
+    captureRef.current = null;
     setIsRecording(false);
+    setInputLevel(0);
+    session?.close();
+    await capture?.stop();
   }, []);
 
   const startVoiceInput = useCallback(async () => {
     try {
       setError(null);
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaStreamRef.current = stream;
-      
-      const ai = getAIInstance();
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      
-      liveSessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setIsRecording(true);
-            const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createAudioBlob(inputData);
-              liveSessionPromiseRef.current?.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContextRef.current!.destination);
-            (window as any)._voiceNodes = { source, scriptProcessor };
-          },
-          onmessage: (message: LiveServerMessage) => {
-            if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
-              setSourceText(prev => (prev ? prev + ' ' + text : text));
-            }
-          },
-          onerror: (e) => {
-            console.error('Live API Error:', e);
-            stopVoiceInput();
-          },
-          onclose: () => {
-            setIsRecording(false);
-          }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          systemInstruction: 'Transcribe user speech exactly as heard. Do not generate responses, just transcribe.'
-        }
+      captureRef.current = await startAudioCapture({
+        deviceId: audioDeviceId || undefined,
+        onDeviceUnavailable: forgetAudioDevice,
+        onLevel: updateInputLevel,
+        onAudio: pcm => liveSessionRef.current?.sendAudio(pcm),
+        onSpeechEnd: () => liveSessionRef.current?.endAudio()
       });
+      // Device labels are only exposed once microphone access is granted
+      refreshAudioDevices();
+
+      liveSessionRef.current = await provider.startTranscription({
+        onText: text => setSourceText(prev => (prev ? prev + ' ' + text : text)),
+        onTurnEnd: () => {},
+        onError: () => stopVoiceInput(),
+        onClose: () => stopVoiceInput()
+      });
+      setIsRecording(true);
     } catch (err: any) {
       console.error('Failed to start voice input:', err);
-      setError('Microphone access denied or connection failed.');
+      stopVoiceInput();
+      setError(errorMessage(err, 'Microphone access denied or connection failed.'));
     }
-  }, [stopVoiceInput]);
+  }, [audioDeviceId, forgetAudioDevice, refreshAudioDevices, stopVoiceInput, updateInputLevel]);
 
   const toggleVoiceInput = useCallback(() => {
     if (isRecording) {
@@ -392,45 +1344,376 @@ const App: React.FC = () => {
     navigator.clipboard.writeText(text);
   };
 
-  const handleSpeak = async (text: string) => {
-    if (!text || isSpeaking) return;
-    setIsSpeaking(true);
-    
-    try {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      }
-      
-      const audioData = await generateSpeech(text);
-      const audioBuffer = await decodeGeminiPCM(audioData, audioContextRef.current!);
-      
-      const source = audioContextRef.current!.createBufferSource();
+  const getPlaybackContext = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: APP_CONFIG.TTS_SAMPLE_RATE });
+    }
+    return audioContextRef.current;
+  };
+
+  // Resolves once the buffer has played or playback was stopped through the signal
+  const playPcm = async (pcm: ArrayBuffer, signal?: AbortSignal) => {
+    const context = getPlaybackContext();
+    const audioBuffer = await decodeGeminiPCM(pcm, context);
+    if (signal?.aborted) return;
+
+    await new Promise<void>(resolve => {
+      const source = context.createBufferSource();
       source.buffer = audioBuffer;
-      source.connect(audioContextRef.current!.destination);
-      source.onended = () => setIsSpeaking(false);
+      source.connect(context.destination);
+      source.onended = () => {
+        signal?.removeEventListener('abort', stop);
+        resolve();
+      };
+      const stop = () => source.stop();
+      signal?.addEventListener('abort', stop);
       source.start();
-    } catch (err) {
+    });
+  };
+
+  // Long text is synthesized chunk by chunk; playback starts with the first chunk.
+  // Resolves once playback has finished.
+  const playSpeech = async (text: string, language: string, signal?: AbortSignal) => {
+    const options = getSpeechOptions(speechSettings, language);
+    const key = speechCacheKey(text, options);
+    const cached = speechCacheRef.current?.key === key ? speechCacheRef.current.chunks : null;
+    const chunks: ArrayBuffer[] = [];
+
+    for await (const pcm of cached || synthesizeSpeech(text, options, provider, signal)) {
+      if (signal?.aborted) return;
+      chunks.push(pcm);
+      await playPcm(pcm, signal);
+    }
+    if (!signal?.aborted) speechCacheRef.current = { key, chunks };
+  };
+
+  const stopSpeech = useCallback(() => {
+    speechAbortRef.current?.abort();
+    speechAbortRef.current = null;
+    // A suspended context would keep the stopped source from ending
+    if (audioContextRef.current?.state === 'suspended') audioContextRef.current.resume();
+    setSpeakingPanel(null);
+    setIsSpeechPaused(false);
+  }, []);
+
+  const handleSpeak = async (text: string, language: string, panel: 'source' | 'target') => {
+    if (!text) return;
+    stopSpeech();
+    const controller = new AbortController();
+    speechAbortRef.current = controller;
+    setSpeakingPanel(panel);
+    
+    try {
+      await playSpeech(text, language, controller.signal);
+    } catch (err: any) {
       console.error('Speech error:', err);
-      setIsSpeaking(false);
+      if (!controller.signal.aborted) setError(errorMessage(err, 'Could not generate speech.'));
+    } finally {
+      if (speechAbortRef.current === controller) stopSpeech();
     }
   };
 
-  const handleTextSelection = () => {
+  const toggleSpeechPause = async () => {
+    const context = audioContextRef.current;
+    if (!context) return;
+    if (isSpeechPaused) {
+      await context.resume();
+      setIsSpeechPaused(false);
+    } else {
+      await context.suspend();
+      setIsSpeechPaused(true);
+    }
+  };
+
+  const handleDownloadSpeech = async (text: string, language: string, panel: 'source' | 'target') => {
+    if (!text) return;
+    const options = getSpeechOptions(speechSettings, language);
+    const key = speechCacheKey(text, options);
+    setExportingSpeechPanel(panel);
+    try {
+      let chunks = speechCacheRef.current?.key === key ? speechCacheRef.current.chunks : null;
+      if (!chunks) {
+        chunks = [];
+        for await (const pcm of synthesizeSpeech(text, options, provider)) chunks.push(pcm);
+        speechCacheRef.current = { key, chunks };
+      }
+      downloadFile(encodeWav(chunks), `speech_${options.language || 'text'}.wav`, 'audio/wav');
+    } catch (err: any) {
+      console.error('Speech export failed:', err);
+      setError(errorMessage(err, 'Could not generate speech.'));
+    } finally {
+      setExportingSpeechPanel(null);
+    }
+  };
+
+  const handleSpeechSettingsChange = (settings: SpeechSettings) => {
+    setSpeechSettings(settings);
+    saveSpeechSettings(settings);
+  };
+
+  const speechPlayback = (panel: 'source' | 'target'): SpeechPlaybackState =>
+    speakingPanel !== panel ? 'idle' : isSpeechPaused ? 'paused' : 'playing';
+
+  // Conversation mode
+  const updateConversationTurn = (id: string, patch: Partial<ConversationTurn>) => {
+    setConversationTurns(prev => prev.map(turn => (turn.id === id ? { ...turn, ...patch } : turn)));
+  };
+
+  // The microphone is muted during playback so the translation isn't heard as a new utterance
+  const speakConversationTurn = (id: string, text: string, language: string) => {
+    const { signal } = conversationSpeechRef.current;
+    speechQueueRef.current = speechQueueRef.current.then(async () => {
+      if (signal.aborted) {
+        updateConversationTurn(id, { status: 'done' });
+        return;
+      }
+      updateConversationTurn(id, { status: 'speaking' });
+      conversationRef.current?.setMuted(true);
+      try {
+        await playSpeech(text, language, signal);
+        updateConversationTurn(id, { status: 'done' });
+      } catch (err) {
+        console.error('Speech error:', err);
+        updateConversationTurn(id, { status: 'done', error: 'Could not play the translation.' });
+      } finally {
+        conversationRef.current?.setMuted(false);
+      }
+    });
+  };
+
+  const handleConversationUtterance = async (text: string) => {
+    const id = `t_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    setConversationPartial('');
+    setConversationTurns(prev => [...prev, {
+      id,
+      spokenLang: '',
+      targetLang: '',
+      original: text,
+      translated: '',
+      status: 'translating',
+      createdAt: Date.now()
+    }]);
+
+    try {
+      const [first, second] = conversationLangs;
+      const style = getPairStyle(pairStyles, first, second);
+      // Either language may be the one spoken, so the terms for both directions apply
+      const glossary = (await Promise.all([getGlossaryTerms(first, second), getGlossaryTerms(second, first)])).flat();
+      const result = await provider.interpretUtterance(text, conversationLangs, { style, glossary });
+      const turnTarget = result.spokenLang === first ? second : first;
+      updateConversationTurn(id, {
+        spokenLang: result.spokenLang,
+        targetLang: turnTarget,
+        translated: result.translatedText,
+        status: 'done'
+      });
+      if (conversationAutoSpeak) speakConversationTurn(id, result.translatedText, turnTarget);
+    } catch (err: any) {
+      console.error('Conversation turn failed:', err);
+      updateConversationTurn(id, { status: 'error', error: errorMessage(err, 'Failed to translate this turn.') });
+    }
+  };
+  conversationHandlerRef.current = handleConversationUtterance;
+
+  const stopConversation = useCallback(async () => {
+    const listener = conversationRef.current;
+    conversationRef.current = null;
+    setIsConversing(false);
+    setConversationPartial('');
+    setInputLevel(0);
+    conversationSpeechRef.current.abort();
+    conversationSpeechRef.current = new AbortController();
+    speechQueueRef.current = Promise.resolve();
+    await listener?.stop();
+  }, []);
+
+  const startConversation = async () => {
+    if (isRecording) await stopVoiceInput();
+    stopSpeech();
+    setIsStartingConversation(true);
+    setError(null);
+    try {
+      conversationRef.current = await startLiveListener({
+        provider,
+        deviceId: audioDeviceId || undefined,
+        onDeviceUnavailable: forgetAudioDevice,
+        onLevel: updateInputLevel,
+        onPartial: setConversationPartial,
+        onUtterance: utterance => conversationHandlerRef.current(utterance.text),
+        onError: err => setError(err.message),
+        onClose: () => {
+          conversationRef.current = null;
+          setIsConversing(false);
+          setConversationPartial('');
+          setInputLevel(0);
+        }
+      });
+      setIsConversing(true);
+      refreshAudioDevices();
+    } catch (err: any) {
+      console.error('Failed to start conversation:', err);
+      setError(errorMessage(err, 'Microphone access denied or connection failed.'));
+    } finally {
+      setIsStartingConversation(false);
+    }
+  };
+
+  // Leaving the tab ends the conversation
+  useEffect(() => {
+    if (activeTab !== 'conversation') return;
+    return () => {
+      stopConversation();
+    };
+  }, [activeTab, stopConversation]);
+
+  const handleConversationLanguages = (languages: [string, string]) => {
+    setConversationLangs(languages);
+    localStorage.setItem('lingoai_conversation_langs', JSON.stringify(languages));
+  };
+
+  // Dictation mode
+  useEffect(() => {
+    saveDictation(dictationUtterances);
+  }, [dictationUtterances]);
+
+  // The rule-based cleanup shows immediately; the model's punctuation replaces it
+  // when it arrives, unless the user has started correcting the line
+  const handleDictationUtterance = (utterance: Utterance) => {
+    const { startedAt, offset } = dictationClockRef.current;
+    const id = `d_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const start = offset + Math.max(0, utterance.startedAt - startedAt);
+    setDictationPartial('');
+    setDictationUtterances(prev => [...prev, {
+      id,
+      start,
+      end: Math.max(start, offset + utterance.endedAt - startedAt),
+      raw: utterance.text,
+      text: cleanTranscript(utterance.text, dictationLang),
+      edited: false
+    }]);
+    punctuateUtterance(utterance.text, dictationLang, provider).then(text => {
+      setDictationUtterances(prev => prev.map(u => (u.id === id && !u.edited ? { ...u, text } : u)));
+    });
+  };
+  dictationHandlerRef.current = handleDictationUtterance;
+
+  const stopDictation = useCallback(async () => {
+    const listener = dictationRef.current;
+    dictationRef.current = null;
+    setIsDictating(false);
+    setDictationPartial('');
+    setInputLevel(0);
+    await listener?.stop();
+  }, []);
+
+  const startDictation = async () => {
+    if (isRecording) await stopVoiceInput();
+    stopSpeech();
+    setIsStartingDictation(true);
+    setError(null);
+    try {
+      // Resuming continues the timeline a second after the last utterance
+      const last = dictationUtterances[dictationUtterances.length - 1];
+      dictationClockRef.current = { startedAt: Date.now(), offset: last ? last.end + 1000 : 0 };
+      dictationRef.current = await startLiveListener({
+        provider,
+        deviceId: audioDeviceId || undefined,
+        onDeviceUnavailable: forgetAudioDevice,
+        onLevel: updateInputLevel,
+        onPartial: setDictationPartial,
+        onUtterance: utterance => dictationHandlerRef.current(utterance),
+        onError: err => setError(err.message),
+        onClose: () => {
+          dictationRef.current = null;
+          setIsDictating(false);
+          setDictationPartial('');
+          setInputLevel(0);
+        }
+      });
+      setIsDictating(true);
+      refreshAudioDevices();
+    } catch (err: any) {
+      console.error('Failed to start dictation:', err);
+      setError(errorMessage(err, 'Microphone access denied or connection failed.'));
+    } finally {
+      setIsStartingDictation(false);
+    }
+  };
+
+  // Leaving the tab ends the recording; the transcript is kept
+  useEffect(() => {
+    if (activeTab !== 'dictation') return;
+    return () => {
+      stopDictation();
+    };
+  }, [activeTab, stopDictation]);
+
+  const handleDictationLanguage = (language: string) => {
+    setDictationLang(language);
+    localStorage.setItem('lingoai_dictation_lang', language);
+  };
+
+  const handleEditDictation = (id: string, text: string) => {
+    setDictationUtterances(prev => prev.map(u => (u.id === id ? { ...u, text, edited: true } : u)));
+  };
+
+  const dictationFileName = (extension: string) => `dictation_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  const handleExportDictation = (format: DictationExportFormat) => {
+    if (format === 'srt') {
+      downloadFile(exportDictationSRT(dictationUtterances), dictationFileName('srt'), SUBTITLE_MIME_TYPES.srt);
+    } else {
+      downloadFile(exportDictationText(dictationUtterances, true), dictationFileName('txt'), 'text/plain');
+    }
+  };
+
+  const handleTranslateDictationText = () => {
+    setSourceText(exportDictationText(dictationUtterances).trim());
+    setActiveTab('text');
+  };
+
+  // Goes through the subtitle document pipeline so the translation keeps the timings
+  const handleTranslateDictationSubtitles = async () => {
+    const file = new File([exportDictationSRT(dictationUtterances)], dictationFileName('srt'), { type: SUBTITLE_MIME_TYPES.srt });
+    setActiveTab('document');
+    resetDocumentOutput(file.name);
+    await handleDocumentModeFile(file);
+  };
+
+  const openSelection = (text: string, rect: DOMRect, phrase: SelectedPhrase | null) => {
+    setSelection({
+      text,
+      x: rect.left + rect.width / 2,
+      y: rect.top + window.scrollY - 10,
+      phrase
+    });
+    setSelectionResult(null);
+    setAlternatives(null);
+    setAlternativesError(null);
+  };
+
+  const handleTextSelection = (e: React.MouseEvent) => {
+    if (selectionPopoverRef.current?.contains(e.target as Node)) return;
     const activeSelection = window.getSelection();
+    const clickedSegment = segmentElement(e.target as Node);
     if (activeSelection && activeSelection.toString().trim().length > 0) {
       const range = activeSelection.getRangeAt(0);
       const rect = range.getBoundingClientRect();
       
       if (targetAreaRef.current && targetAreaRef.current.contains(activeSelection.anchorNode)) {
-        setSelection({
-          text: activeSelection.toString().trim(),
-          x: rect.left + rect.width / 2,
-          y: rect.top + window.scrollY - 10
-        });
-        setSelectionResult(null);
+        openSelection(activeSelection.toString().trim(), rect, locatePhrase(range));
       }
+    } else if (clickedSegment && targetAreaRef.current?.contains(clickedSegment) && status !== TranslationStatus.LOADING) {
+      // A plain click on a translated sentence offers alternatives for the whole sentence
+      const translation = segmentTranslations[clickedSegment.dataset.segmentId!];
+      if (!translation?.target) return;
+      openSelection(translation.target, clickedSegment.getBoundingClientRect(), {
+        segmentId: translation.id,
+        start: 0,
+        end: translation.target.length
+      });
     } else {
-      if (!isTranslatingSelection) setSelection(null);
+      if (!isTranslatingSelection && !isLoadingAlternatives) setSelection(null);
     }
   };
 
@@ -438,16 +1721,57 @@ const App: React.FC = () => {
     if (!selection) return;
     setIsTranslatingSelection(true);
     try {
-      const result = await translateText(selection.text, 'auto', selectionTargetLang);
-      setSelectionResult(result.translatedText);
+      const glossary = await getGlossaryTerms('auto', selectionTargetLang).catch(() => []);
+      const style = getPairStyle(pairStyles, 'auto', selectionTargetLang);
+      const protectedText = protectPlaceholders(selection.text, TEXT_PLACEHOLDER_PATTERN);
+      const result = await provider.translateText(protectedText.text, 'auto', selectionTargetLang, { glossary, style });
+      setSelectionResult(restorePlaceholdersStrict(result.translatedText, protectedText.tokens));
     } catch (err) {
       console.error("Selection translation failed", err);
-      setSelectionResult("Error translating selection.");
+      setSelectionResult(errorMessage(err, "Error translating selection."));
     } finally {
       setIsTranslatingSelection(false);
     }
   };
 
+  const requestAlternatives = async () => {
+    const translation = selection?.phrase && segmentTranslations[selection.phrase.segmentId];
+    if (!selection || !translation) return;
+    setIsLoadingAlternatives(true);
+    setAlternativesError(null);
+    try {
+      const result = await provider.suggestAlternatives(
+        { phrase: selection.text, sourceText: translation.source, targetText: translation.target, count: alternativeCount },
+        sourceLang,
+        targetLang,
+        { glossary: glossaryTerms, style: translationStyle }
+      );
+      setAlternatives(result);
+    } catch (err: any) {
+      console.error('Alternatives failed:', err);
+      setAlternativesError(errorMessage(err, 'Failed to load alternatives.'));
+    } finally {
+      setIsLoadingAlternatives(false);
+    }
+  };
+
+  const handleAcceptAlternative = (alternative: TranslationAlternative) => {
+    const phrase = selection?.phrase;
+    const translation = phrase && segmentTranslations[phrase.segmentId];
+    if (!selection || !phrase || !translation) return;
+    // The segment may have been retranslated or edited since the phrase was selected
+    const start = translation.target.slice(phrase.start, phrase.end) === selection.text
+      ? phrase.start
+      : translation.target.indexOf(selection.text);
+    if (start < 0) {
+      setAlternativesError('The translation has changed. Select the phrase again.');
+      return;
+    }
+    const target = translation.target.slice(0, start) + alternative.text + translation.target.slice(start + selection.text.length);
+    handleEditSegment(phrase.segmentId, target);
+    setSelection(null);
+  };
+
   return (
     <div className="min-h-screen pb-12" onMouseUp={handleTextSelection}>
       {/* Header */}
@@ -458,6 +1782,11 @@ const App: React.FC = () => {
               L
             </div>
             <h1 className="text-xl font-bold text-slate-900 tracking-tight">{APP_CONFIG.NAME}</h1>
+            {provider.id === 'mock' && (
+              <span className="px-2 py-0.5 bg-amber-50 text-amber-600 text-[10px] font-bold rounded-full border border-amber-100 uppercase">
+                Offline Mock
+              </span>
+            )}
           </div>
           <nav className="flex items-center gap-6 text-sm font-medium text-slate-600">
             <button 
@@ -472,8 +1801,34 @@ const App: React.FC = () => {
             >
               Documents
             </button>
+            <button 
+              onClick={() => setActiveTab('conversation')}
+              className={`pb-5 pt-5 border-b-2 transition-all ${activeTab === 'conversation' ? 'text-blue-600 border-blue-600' : 'text-slate-500 border-transparent hover:text-slate-900'}`}
+            >
+              Conversation
+            </button>
+            <button 
+              onClick={() => setActiveTab('dictation')}
+              className={`pb-5 pt-5 border-b-2 transition-all ${activeTab === 'dictation' ? 'text-blue-600 border-blue-600' : 'text-slate-500 border-transparent hover:text-slate-900'}`}
+            >
+              Dictation
+            </button>
           </nav>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowHistory(prev => !prev)}
+              title="Translation History"
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors ${showHistory ? 'text-blue-600 bg-blue-50' : 'text-slate-600 hover:bg-slate-100'}`}
+            >
+              History
+            </button>
+            <button
+              onClick={() => setShowGlossary(prev => !prev)}
+              title="Manage Glossary"
+              className={`px-4 py-2 text-sm font-medium rounded-full transition-colors ${showGlossary ? 'text-blue-600 bg-blue-50' : 'text-slate-600 hover:bg-slate-100'}`}
+            >
+              Glossary{glossaryTerms.length > 0 ? ` (${glossaryTerms.length})` : ''}
+            </button>
             <button className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-full transition-colors">
               Sign In
             </button>
@@ -481,27 +1836,50 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {showHistory && (
+        <HistoryPanel
+          entries={translationHistory}
+          onRestore={handleRestoreHistory}
+          onToggleFavorite={handleToggleHistoryFavorite}
+          onDelete={handleDeleteHistoryEntry}
+          onClear={handleClearHistory}
+          onExport={handleExportHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       <main className="max-w-6xl mx-auto px-4 mt-8">
         <div className="flex flex-col gap-6">
+
+          {showGlossary && (
+            <GlossaryPanel
+              sourceLang={sourceLang}
+              targetLang={targetLang}
+              terms={glossaryTerms}
+              onAdd={handleAddGlossaryTerm}
+              onDelete={handleDeleteGlossaryTerm}
+              onImport={handleImportGlossary}
+              onExport={handleExportGlossary}
+              onClose={() => setShowGlossary(false)}
+            />
+          )}
           
           {/* Main UI Container */}
           {activeTab === 'text' ? (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
               {/* Source Panel */}
               <div className="flex flex-col gap-2">
-                <div className="flex items-center justify-between glass-panel px-4 py-2 rounded-xl">
+                <div className="relative z-20 flex items-center justify-between glass-panel px-4 py-2 rounded-xl">
                   <div className="flex items-center gap-2">
-                    <select 
+                    <LanguagePicker
                       value={sourceLang}
-                      onChange={(e) => setSourceLang(e.target.value)}
-                      className="bg-transparent text-sm font-semibold text-slate-700 focus:outline-none cursor-pointer"
-                    >
-                      {SUPPORTED_LANGUAGES.map(lang => (
-                        <option key={lang.code} value={lang.code}>
-                          {lang.name} {lang.code === 'auto' && detectedLang ? `(${detectedLang})` : ''}
-                        </option>
-                      ))}
-                    </select>
+                      languages={SUPPORTED_LANGUAGES}
+                      prefs={languagePrefs}
+                      onChange={handleSourceLangChange}
+                      onTogglePin={handleTogglePinnedLanguage}
+                      label={sourceLang === 'auto' && detectedLangName ? `Detect Language (${detectedLangName})` : undefined}
+                      title="Source language"
+                    />
                     {sourceLang === 'auto' && detectedLang && confidence > 0 && (
                       <div className="flex items-center gap-1 group relative">
                         <span className="px-2 py-0.5 bg-blue-50 text-blue-600 text-[10px] font-bold rounded-full border border-blue-100 transition-all cursor-help hover:bg-blue-100">
@@ -536,6 +1914,13 @@ const App: React.FC = () => {
                         </svg>
                      </button>
                      <div className="w-px h-6 bg-slate-200 mx-1"></div>
+                     <AudioInputControls
+                      devices={audioDevices}
+                      deviceId={audioDeviceId}
+                      level={inputLevel}
+                      isActive={isRecording}
+                      onChangeDevice={handleAudioDeviceChange}
+                     />
                      <button 
                       onClick={toggleVoiceInput}
                       title={isRecording ? "Stop Recording (Ctrl+Shift+V)" : "Voice Input (Ctrl+Shift+V)"}
@@ -563,24 +1948,37 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <LanguageDetectionHint
+                  candidates={languageCandidates}
+                  sourceLang={sourceLang}
+                  suggestion={showSourceSuggestion ? sourceSuggestion : null}
+                  onSelect={setSourceLang}
+                  onDismiss={() => setDismissedSuggestion(`${sourceLang}>${sourceSuggestion}`)}
+                />
+
                 <div className="relative glass-panel rounded-2xl shadow-sm min-h-[300px]">
                   <textarea
                     value={sourceText}
                     onChange={(e) => setSourceText(e.target.value)}
+                    lang={qaSourceLang || undefined}
+                    dir={getTextDirection(qaSourceLang || 'auto')}
                     placeholder={isRecording ? "Listening..." : "Enter text here..."}
                     className="w-full h-full p-6 bg-transparent resize-none focus:outline-none text-lg text-slate-800"
                     rows={8}
                   />
                   <div className="absolute bottom-4 left-4 flex gap-2">
-                     <button 
-                      onClick={() => handleSpeak(sourceText)}
-                      disabled={!sourceText || isSpeaking}
-                      className="p-2 text-slate-400 hover:text-blue-600 disabled:opacity-30"
-                     >
-                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                         <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.983 5.983 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.984 3.984 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
-                       </svg>
-                     </button>
+                     <SpeechControls
+                      settings={speechSettings}
+                      language={qaSourceLang || sourceLang}
+                      playback={speechPlayback('source')}
+                      isExporting={exportingSpeechPanel === 'source'}
+                      disabled={!sourceText}
+                      onChangeSettings={handleSpeechSettingsChange}
+                      onPlay={() => handleSpeak(sourceText, qaSourceLang || sourceLang, 'source')}
+                      onTogglePause={toggleSpeechPause}
+                      onStop={stopSpeech}
+                      onDownload={() => handleDownloadSpeech(sourceText, qaSourceLang || sourceLang, 'source')}
+                     />
                   </div>
                   <div className="absolute bottom-4 right-4 flex items-center gap-3">
                     {lastSaved && (
@@ -614,19 +2012,45 @@ const App: React.FC = () => {
 
               {/* Target Panel */}
               <div className="flex flex-col gap-2">
-                <div className="flex items-center justify-between glass-panel px-4 py-2 rounded-xl">
-                  <select 
-                    value={targetLang}
-                    onChange={(e) => setTargetLang(e.target.value)}
-                    className="bg-transparent text-sm font-semibold text-slate-700 focus:outline-none cursor-pointer"
-                  >
-                    {SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto').map(lang => (
-                      <option key={lang.code} value={lang.code}>
-                        {lang.name}
-                      </option>
-                    ))}
-                  </select>
+                <div className="relative z-20 flex items-center justify-between glass-panel px-4 py-2 rounded-xl">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <LanguagePicker
+                      value={targetLang}
+                      languages={SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto')}
+                      prefs={languagePrefs}
+                      onChange={handleTargetLangChange}
+                      onTogglePin={handleTogglePinnedLanguage}
+                      title="Target language"
+                    />
+                    <StyleControls
+                      style={translationStyle}
+                      targetLang={targetLang}
+                      onChange={handleStyleChange}
+                      className="border-l border-slate-200 pl-3"
+                    />
+                  </div>
                   <div className="flex items-center gap-2">
+                     <button
+                      onClick={() => setMultiTargetMode(prev => !prev)}
+                      title="Translate into several languages at once"
+                      className={`px-2 py-1 text-[10px] font-bold uppercase rounded-full transition-colors ${multiTargetMode ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                     >
+                       Multi
+                     </button>
+                     <button
+                      onClick={() => setShowQuality(prev => !prev)}
+                      title="Check translation quality"
+                      className={`px-2 py-1 text-[10px] font-bold uppercase rounded-full transition-colors ${showQuality ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                     >
+                       QA
+                     </button>
+                     <button
+                      onClick={() => setShowBilingual(prev => !prev)}
+                      title="Bilingual Side-by-Side View"
+                      className={`px-2 py-1 text-[10px] font-bold uppercase rounded-full transition-colors ${showBilingual ? 'text-blue-600 bg-blue-50' : 'text-slate-400 hover:text-blue-600 hover:bg-blue-50'}`}
+                     >
+                       Bilingual
+                     </button>
                      {status === TranslationStatus.LOADING && (
                         <div className="flex gap-1">
                           <div className="w-1 h-1 bg-blue-600 rounded-full animate-bounce"></div>
@@ -641,20 +2065,59 @@ const App: React.FC = () => {
                   ref={targetAreaRef}
                   className={`relative glass-panel rounded-2xl shadow-sm min-h-[300px] transition-colors ${status === TranslationStatus.ERROR ? 'border-red-200 bg-red-50/10' : ''}`}
                 >
-                  <div className="p-6 text-lg text-slate-800 whitespace-pre-wrap select-text">
+                  <div lang={targetLang} dir={getTextDirection(targetLang)} className="p-6 text-lg text-slate-800 whitespace-pre-wrap select-text">
                     {(status === TranslationStatus.LOADING && !targetText) ? (
                       <div className="space-y-3 animate-pulse">
                         <div className="h-4 bg-slate-100 rounded w-3/4"></div>
                         <div className="h-4 bg-slate-100 rounded w-1/2"></div>
                         <div className="h-4 bg-slate-100 rounded w-5/6"></div>
                       </div>
+                    ) : targetText ? (
+                      segments.map(segment => {
+                        const translation = segmentTranslations[segment.id];
+                        if (!translation?.target) return null;
+                        return (
+                          <React.Fragment key={segment.id}>
+                            <span
+                              data-segment-id={segment.id}
+                              onMouseEnter={() => setHoveredSegmentId(segment.id)}
+                              onMouseLeave={() => setHoveredSegmentId(null)}
+                              className={`rounded transition-colors ${hoveredSegmentId === segment.id ? 'bg-blue-100/70' : ''}`}
+                            >
+                              <HighlightedText
+                                text={translation.target}
+                                ranges={findViolationRanges(translation.target, glossaryViolationsBySegment[segment.id] || [])}
+                              />
+                            </span>
+                            {isRiskySegment(qualityBySegment[segment.id]) && (
+                              <sup
+                                title={qualityBySegment[segment.id].issues.map(i => i.message).join('\n') || 'Low quality score'}
+                                onMouseEnter={() => setHoveredSegmentId(segment.id)}
+                                onMouseLeave={() => setHoveredSegmentId(null)}
+                                className="text-amber-500 font-bold cursor-help select-none ml-0.5"
+                              >
+                                ⚠
+                              </sup>
+                            )}
+                            {segment.trailing}
+                          </React.Fragment>
+                        );
+                      })
                     ) : (
-                      targetText || (
-                        <span className="text-slate-300 italic">Translation will appear here...</span>
-                      )
+                      <span className="text-slate-300 italic">Translation will appear here...</span>
                     )}
                   </div>
 
+                  {glossaryViolations.length > 0 && status !== TranslationStatus.LOADING && (
+                    <div className="px-6 pb-16 flex flex-wrap gap-1">
+                      {glossaryViolations.map(v => (
+                        <span key={v.term.id} className="text-[10px] bg-red-50 text-red-600 border border-red-100 px-2 py-0.5 rounded-full font-medium">
+                          Glossary: "{v.term.source}" should be "{v.expected}"
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
                   {error && (
                     <div className="absolute inset-x-0 top-0 p-4 text-center">
                       <span className="text-xs bg-red-100 text-red-600 px-3 py-1 rounded-full font-medium">{error}</span>
@@ -662,15 +2125,18 @@ const App: React.FC = () => {
                   )}
 
                   <div className="absolute bottom-4 left-4 flex gap-2">
-                    <button 
-                      onClick={() => handleSpeak(targetText)}
-                      disabled={!targetText || isSpeaking}
-                      className="p-2 text-slate-400 hover:text-blue-600 transition-colors disabled:opacity-30"
-                    >
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.983 5.983 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.984 3.984 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
-                      </svg>
-                    </button>
+                    <SpeechControls
+                      settings={speechSettings}
+                      language={targetLang}
+                      playback={speechPlayback('target')}
+                      isExporting={exportingSpeechPanel === 'target'}
+                      disabled={!targetText}
+                      onChangeSettings={handleSpeechSettingsChange}
+                      onPlay={() => handleSpeak(targetText, targetLang, 'target')}
+                      onTogglePause={toggleSpeechPause}
+                      onStop={stopSpeech}
+                      onDownload={() => handleDownloadSpeech(targetText, targetLang, 'target')}
+                    />
                     <button 
                       onClick={() => copyToClipboard(targetText)}
                       disabled={!targetText}
@@ -683,9 +2149,66 @@ const App: React.FC = () => {
                     </button>
                   </div>
                 </div>
+
+                <TranslationMemoryPanel
+                  matches={tmMatches}
+                  entryCount={tmEntryCount}
+                  exactHit={tmExactHit}
+                  onApply={handleApplyTmMatch}
+                  onImport={handleImportTm}
+                  onExport={handleExportTm}
+                />
               </div>
+
+              {multiTargetMode && (
+                <div className="lg:col-span-2">
+                  <MultiTargetPanel
+                    targets={multiTargets}
+                    results={multiResults}
+                    isTranslating={isFanningOut}
+                    canTranslate={sourceText.trim().length > 0}
+                    isStale={multiSourceText !== sourceText}
+                    onToggleTarget={handleToggleMultiTarget}
+                    onTranslate={handleFanOut}
+                    onCancel={handleCancelFanOut}
+                    onCopy={copyToClipboard}
+                    onExport={handleExportFanOut}
+                  />
+                </div>
+              )}
+
+              {showQuality && (
+                <div className="lg:col-span-2">
+                  <QualityPanel
+                    segments={segments}
+                    translations={segmentTranslations}
+                    quality={qualityBySegment}
+                    isRunning={isBackTranslating}
+                    runBlockedReason={qaSourceLang ? '' : 'Choose a source language or translate once so it can be detected'}
+                    hoveredId={hoveredSegmentId}
+                    onHover={setHoveredSegmentId}
+                    onRun={handleBackTranslate}
+                  />
+                </div>
+              )}
+
+              {showBilingual && (
+                <div className="lg:col-span-2">
+                  <BilingualView
+                    segments={segments}
+                    sourceLang={qaSourceLang}
+                    targetLang={targetLang}
+                    translations={segmentTranslations}
+                    violations={glossaryViolationsBySegment}
+                    hoveredId={hoveredSegmentId}
+                    onHover={setHoveredSegmentId}
+                    onEdit={handleEditSegment}
+                    onRetranslate={handleRetranslateSegment}
+                  />
+                </div>
+              )}
             </div>
-          ) : (
+          ) : activeTab === 'document' ? (
             /* Document Mode UI */
             <div className="glass-panel rounded-3xl p-12 flex flex-col items-center justify-center text-center">
               <div className="w-24 h-24 bg-blue-50 text-blue-600 rounded-full flex items-center justify-center mb-6">
@@ -694,54 +2217,131 @@ const App: React.FC = () => {
                  </svg>
               </div>
               <h2 className="text-2xl font-bold text-slate-900 mb-2">Translate any document</h2>
-              <p className="text-slate-500 mb-8 max-w-md">Upload PDF, DOCX, or Text files and translate them instantly while preserving formatting.</p>
+              <p className="text-slate-500 mb-8 max-w-md">Upload PDF, DOCX, Text, subtitle or localization files, photos or scans and translate them instantly while preserving formatting.</p>
               
               <div className="w-full max-w-xl flex flex-col gap-6">
                 <div className="flex items-center gap-4 justify-center">
-                  <select 
+                  <LanguagePicker
                     value={sourceLang}
-                    onChange={(e) => setSourceLang(e.target.value)}
-                    className="px-4 py-2 border border-slate-200 rounded-xl bg-white text-sm font-semibold"
-                  >
-                    {SUPPORTED_LANGUAGES.map(l => (
-                      <option key={l.code} value={l.code}>{l.name}</option>
-                    ))}
-                  </select>
+                    languages={SUPPORTED_LANGUAGES}
+                    prefs={languagePrefs}
+                    onChange={handleSourceLangChange}
+                    onTogglePin={handleTogglePinnedLanguage}
+                    title="Source language"
+                    className="px-4 py-2 border border-slate-200 rounded-xl bg-white"
+                  />
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
                   </svg>
-                  <select 
+                  <LanguagePicker
                     value={targetLang}
-                    onChange={(e) => setTargetLang(e.target.value)}
-                    className="px-4 py-2 border border-slate-200 rounded-xl bg-white text-sm font-semibold"
-                  >
-                    {SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto').map(l => (
-                      <option key={l.code} value={l.code}>{l.name}</option>
-                    ))}
-                  </select>
+                    languages={SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto')}
+                    prefs={languagePrefs}
+                    onChange={handleTargetLangChange}
+                    onTogglePin={handleTogglePinnedLanguage}
+                    title="Target language"
+                    className="px-4 py-2 border border-slate-200 rounded-xl bg-white"
+                  />
                 </div>
 
-                {!isDocumentProcessing && !translatedDocContent && (
+                <StyleControls
+                  style={translationStyle}
+                  targetLang={targetLang}
+                  onChange={handleStyleChange}
+                  disabled={isDocumentProcessing}
+                  className="justify-center -mt-3"
+                />
+
+                <label className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                  Subtitle line length
+                  <input
+                    type="number"
+                    min={10}
+                    max={80}
+                    value={subtitleCharsPerLine}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (!value) return;
+                      setSubtitleCharsPerLine(value);
+                      localStorage.setItem('lingoai_subtitle_cpl', String(value));
+                    }}
+                    className="w-16 px-2 py-1 border border-slate-200 rounded-lg bg-white text-sm font-semibold text-center"
+                  />
+                  characters
+                </label>
+
+                {resumableJob && !isDocumentProcessing && !documentJob && (
+                  <div className="p-4 bg-amber-50 border border-amber-100 rounded-2xl flex items-center justify-between gap-4 text-left">
+                    <div className="text-sm">
+                      <p className="font-semibold text-slate-800">Unfinished translation of {resumableJob.fileName}</p>
+                      <p className="text-xs text-slate-500">
+                        {resumableJob.chunks.filter(c => c.status === 'done').length} of {resumableJob.chunks.length} chunks translated
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => runDocumentModeJob(resumableJob)}
+                        className="text-xs font-bold bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        Resume
+                      </button>
+                      <button
+                        onClick={() => handleDiscardDocumentJob(resumableJob)}
+                        className="text-xs font-bold text-slate-500 px-3 py-1.5 rounded-lg hover:bg-white transition-colors"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {!isDocumentProcessing && !translatedDocContent && !documentJob && (
                   <label className="border-2 border-dashed border-slate-200 rounded-3xl p-12 cursor-pointer hover:border-blue-400 hover:bg-blue-50/30 transition-all flex flex-col items-center gap-4">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                     </svg>
                     <span className="font-semibold text-slate-700">Choose a file or drag it here</span>
-                    <span className="text-xs text-slate-400">Supported types: PDF, DOCX, TXT</span>
-                    <input type="file" className="hidden" accept=".pdf,.docx,.txt" onChange={handleFileUpload} />
+                    <span className="text-xs text-slate-400">Supported types: PDF (including scans), PNG, JPG, WebP, DOCX, TXT, SRT, VTT, i18next JSON, PO/POT, XLIFF, Android strings.xml, iOS .strings</span>
+                    <input type="file" className="hidden" accept=".pdf,.png,.jpg,.jpeg,.webp,.docx,.txt,.srt,.vtt,.json,.po,.pot,.xlf,.xliff,.xml,.strings" onChange={handleFileUpload} />
                   </label>
                 )}
 
-                {isDocumentProcessing && (
+                {documentJob && (
+                  <DocumentJobProgress
+                    job={documentJob}
+                    isRunning={isDocumentProcessing}
+                    onCancel={handleCancelDocumentJob}
+                    onRetry={() => runDocumentModeJob(documentJob)}
+                    onDiscard={() => handleDiscardDocumentJob(documentJob)}
+                  />
+                )}
+
+                {isDocumentProcessing && !documentJob && (
                   <div className="p-8 bg-blue-50/50 rounded-3xl border border-blue-100 flex flex-col gap-4 animate-in fade-in zoom-in duration-300">
                     <div className="flex items-center justify-between text-sm font-semibold text-blue-600">
                       <span>Translating {uploadedFileName}...</span>
-                      <span className="animate-pulse">Processing...</span>
-                    </div>
-                    <div className="h-2 w-full bg-blue-100 rounded-full overflow-hidden">
-                      <div className="h-full bg-blue-500 rounded-full animate-progress"></div>
+                      <span className="flex items-center gap-3">
+                        <span className="animate-pulse">
+                          {ocrProgress ? `Reading page ${ocrProgress.done + 1} of ${ocrProgress.total}...` : 'Processing...'}
+                        </span>
+                        {ocrProgress && (
+                          <button
+                            onClick={handleCancelOcr}
+                            className="text-xs font-bold text-slate-500 px-3 py-1.5 rounded-lg hover:bg-white transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </span>
                     </div>
-                    <p className="text-xs text-slate-400 italic">This usually takes about 10-20 seconds for large documents.</p>
+                    {ocrProgress && (
+                      <div className="h-2 w-full bg-blue-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500 rounded-full transition-all"
+                          style={{ width: `${(ocrProgress.done / ocrProgress.total) * 100}%` }}
+                        ></div>
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -755,17 +2355,40 @@ const App: React.FC = () => {
                     <div>
                       <h3 className="text-lg font-bold text-slate-900">Translation Complete!</h3>
                       <p className="text-sm text-slate-500">Your translated document is ready to download.</p>
+                      {documentEncoding && documentEncoding !== 'utf-8' && (
+                        <p className="text-xs text-slate-400 mt-1">Source encoding detected as {documentEncoding.toUpperCase()}.</p>
+                      )}
+                      {documentNotice && (
+                        <p className="text-xs text-amber-600 mt-1 max-w-md">{documentNotice}</p>
+                      )}
                     </div>
+                    {scannedDocument && (
+                      <div className="self-stretch">
+                        <ScannedPagePreview
+                          pages={scannedDocument.pages}
+                          targetLang={scannedDocument.targetLang}
+                          onBlockChange={handleScannedBlockChange}
+                          onDownloadPdf={() => exportScannedDocument(scan => exportPagesAsPdf(scan.pages, scan.targetLang), '.pdf')}
+                          onDownloadPng={(pageIndex) => exportScannedDocument(
+                            scan => exportPageAsPng(scan.pages[pageIndex], scan.targetLang),
+                            scannedDocument.pages.length > 1 ? `_page${pageIndex + 1}.png` : '.png'
+                          )}
+                          isExporting={isExportingScan}
+                        />
+                      </div>
+                    )}
                     <div className="flex gap-4">
-                      <button 
-                        onClick={handleDownload}
-                        className="px-8 py-3 bg-blue-600 text-white font-bold rounded-2xl hover:bg-blue-700 transition-all flex items-center gap-2"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
-                        </svg>
-                        Download (.txt)
-                      </button>
+                      {!scannedDocument && (
+                        <button 
+                          onClick={handleDownload}
+                          className="px-8 py-3 bg-blue-600 text-white font-bold rounded-2xl hover:bg-blue-700 transition-all flex items-center gap-2"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                          </svg>
+                          Download (.{documentOutput.extension})
+                        </button>
+                      )}
                       <button 
                         onClick={handleClear}
                         className="px-8 py-3 bg-white border border-slate-200 text-slate-600 font-bold rounded-2xl hover:bg-slate-50 transition-all"
@@ -783,12 +2406,69 @@ const App: React.FC = () => {
                 )}
               </div>
             </div>
+          ) : activeTab === 'conversation' ? (
+            /* Conversation Mode UI */
+            <div className="flex flex-col gap-4">
+              <ConversationView
+                languages={conversationLangs}
+                turns={conversationTurns}
+                partial={conversationPartial}
+                isActive={isConversing}
+                isStarting={isStartingConversation}
+                autoSpeak={conversationAutoSpeak}
+                audioDevices={audioDevices}
+                audioDeviceId={audioDeviceId}
+                inputLevel={inputLevel}
+                onChangeAudioDevice={handleAudioDeviceChange}
+                onChangeLanguages={handleConversationLanguages}
+                onToggleAutoSpeak={() => setConversationAutoSpeak(prev => !prev)}
+                onStart={startConversation}
+                onStop={stopConversation}
+                onReplay={turn => speakConversationTurn(turn.id, turn.translated, turn.targetLang)}
+                onClear={() => setConversationTurns([])}
+              />
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-600 text-sm font-medium">
+                  {error}
+                </div>
+              )}
+            </div>
+          ) : (
+            /* Dictation Mode UI */
+            <div className="flex flex-col gap-4">
+              <DictationView
+                language={dictationLang}
+                utterances={dictationUtterances}
+                partial={dictationPartial}
+                isActive={isDictating}
+                isStarting={isStartingDictation}
+                audioDevices={audioDevices}
+                audioDeviceId={audioDeviceId}
+                inputLevel={inputLevel}
+                onChangeAudioDevice={handleAudioDeviceChange}
+                onChangeLanguage={handleDictationLanguage}
+                onStart={startDictation}
+                onStop={stopDictation}
+                onEdit={handleEditDictation}
+                onDelete={id => setDictationUtterances(prev => prev.filter(u => u.id !== id))}
+                onClear={() => setDictationUtterances([])}
+                onExport={handleExportDictation}
+                onTranslateText={handleTranslateDictationText}
+                onTranslateSubtitles={handleTranslateDictationSubtitles}
+              />
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-100 rounded-xl text-red-600 text-sm font-medium">
+                  {error}
+                </div>
+              )}
+            </div>
           )}
 
           {/* Selection Tooltip Portal */}
           {selection && (
             <div 
-              className="fixed z-50 bg-white shadow-xl rounded-lg border border-slate-200 overflow-hidden min-w-[200px]"
+              ref={selectionPopoverRef}
+              className="fixed z-50 bg-white shadow-xl rounded-lg border border-slate-200 overflow-hidden min-w-[200px] max-w-sm"
               style={{ left: selection.x, top: selection.y, transform: 'translate(-50%, -100%)' }}
             >
               <div className="flex items-center gap-2 p-2 bg-slate-50 border-b border-slate-200">
@@ -819,6 +2499,36 @@ const App: React.FC = () => {
                   {selectionResult}
                 </div>
               )}
+              {selection.phrase && (
+                <>
+                  <div className="flex items-center gap-2 p-2 bg-slate-50 border-t border-slate-200">
+                    <span className="text-[10px] uppercase font-bold text-slate-400">Rephrase:</span>
+                    <select
+                      value={alternativeCount}
+                      onChange={(e) => setAlternativeCount(Number(e.target.value))}
+                      title="Number of alternatives"
+                      className="bg-white border border-slate-200 rounded text-xs px-1 focus:outline-none"
+                    >
+                      {[2, 3, 5].map(n => (
+                        <option key={n} value={n}>{n} alternatives</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={requestAlternatives}
+                      disabled={isLoadingAlternatives}
+                      className="ml-auto bg-blue-600 text-white text-[10px] font-bold px-2 py-1 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {isLoadingAlternatives ? '...' : 'SUGGEST'}
+                    </button>
+                  </div>
+                  <AlternativesList
+                    alternatives={alternatives}
+                    isLoading={isLoadingAlternatives}
+                    error={alternativesError}
+                    onAccept={handleAcceptAlternative}
+                  />
+                </>
+              )}
             </div>
           )}
 
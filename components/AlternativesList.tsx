@@ -0,0 +1,46 @@
+import React from 'react';
+import { TranslationAlternative } from '../types';
+
+interface AlternativesListProps {
+  alternatives: TranslationAlternative[] | null;
+  isLoading: boolean;
+  error: string | null;
+  onAccept: (alternative: TranslationAlternative) => void;
+}
+
+const AlternativesList: React.FC<AlternativesListProps> = ({ alternatives, isLoading, error, onAccept }) => {
+  if (isLoading) {
+    return (
+      <div className="p-3 space-y-2 animate-pulse">
+        <div className="h-3 bg-slate-100 rounded w-3/4"></div>
+        <div className="h-3 bg-slate-100 rounded w-1/2"></div>
+      </div>
+    );
+  }
+  if (error) return <p className="p-3 text-xs text-red-500">{error}</p>;
+  if (!alternatives) return null;
+  if (alternatives.length === 0) return <p className="p-3 text-xs text-slate-400 italic">No alternatives found.</p>;
+
+  return (
+    <ol className="max-h-[220px] overflow-y-auto divide-y divide-slate-100">
+      {alternatives.map((alternative, index) => (
+        <li key={`${index}:${alternative.text}`} className="group flex items-start gap-2 px-3 py-2 hover:bg-blue-50/40 transition-colors">
+          <span className="text-[10px] font-bold text-slate-300 mt-0.5">{index + 1}</span>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-slate-800">{alternative.text}</p>
+            <p className="text-[11px] text-slate-400">{alternative.explanation}</p>
+          </div>
+          <button
+            onClick={() => onAccept(alternative)}
+            title="Replace the phrase with this alternative"
+            className="text-[10px] font-bold text-blue-600 px-2 py-1 rounded hover:bg-blue-100 transition-colors shrink-0"
+          >
+            Use
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default AlternativesList;
@@ -0,0 +1,60 @@
+import React from 'react';
+
+interface AudioInputControlsProps {
+  devices: MediaDeviceInfo[];
+  // Empty for the system default
+  deviceId: string;
+  // 0 to 1, shown while capturing
+  level: number;
+  isActive: boolean;
+  onChangeDevice: (deviceId: string) => void;
+  className?: string;
+}
+
+const LEVEL_BARS = 8;
+
+const AudioInputControls: React.FC<AudioInputControlsProps> = ({
+  devices,
+  deviceId,
+  level,
+  isActive,
+  onChangeDevice,
+  className = ''
+}) => {
+  // A saved device that has been unplugged falls back to the default
+  const selected = devices.some(d => d.deviceId === deviceId) ? deviceId : '';
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      {devices.length > 1 && (
+        <select
+          value={selected}
+          onChange={(e) => onChangeDevice(e.target.value)}
+          disabled={isActive}
+          title={isActive ? 'Stop listening to switch microphones' : 'Microphone'}
+          className="max-w-[10rem] text-[11px] font-semibold text-slate-500 bg-transparent border border-slate-200 rounded-lg px-2 py-1 disabled:opacity-60"
+        >
+          <option value="">Default microphone</option>
+          {devices
+            .filter(d => d.deviceId && d.deviceId !== 'default')
+            .map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+            ))}
+        </select>
+      )}
+      {isActive && (
+        <div className="flex items-end gap-0.5 h-4" title="Input level" aria-hidden="true">
+          {Array.from({ length: LEVEL_BARS }, (_, i) => (
+            <span
+              key={i}
+              style={{ height: `${((i + 1) / LEVEL_BARS) * 100}%` }}
+              className={`w-1 rounded-sm transition-colors ${level * LEVEL_BARS > i ? (i >= LEVEL_BARS - 2 ? 'bg-red-500' : 'bg-emerald-500') : 'bg-slate-200'}`}
+            ></span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioInputControls;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Segment, SegmentTranslation, GlossaryViolation } from '../types';
+import { findViolationRanges } from '../services/glossary';
+import { getTextDirection } from '../services/languages';
+import HighlightedText from './HighlightedText';
+
+interface BilingualViewProps {
+  segments: Segment[];
+  // '' while the source language is still unknown
+  sourceLang: string;
+  targetLang: string;
+  translations: Record<string, SegmentTranslation>;
+  violations: Record<string, GlossaryViolation[]>;
+  hoveredId: string | null;
+  onHover: (id: string | null) => void;
+  onEdit: (id: string, target: string) => void;
+  onRetranslate: (id: string) => void;
+}
+
+const ORIGIN_LABELS: Record<SegmentTranslation['origin'], string | null> = {
+  provider: null,
+  memory: 'TM',
+  manual: 'Edited'
+};
+
+const BilingualView: React.FC<BilingualViewProps> = ({
+  segments,
+  sourceLang,
+  targetLang,
+  translations,
+  violations,
+  hoveredId,
+  onHover,
+  onEdit,
+  onRetranslate
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (id: string) => {
+    setEditingId(id);
+    setDraft(translations[id]?.target || '');
+  };
+
+  const saveEdit = () => {
+    if (editingId) onEdit(editingId, draft.trim());
+    setEditingId(null);
+  };
+
+  if (segments.length === 0) {
+    return (
+      <div className="glass-panel rounded-2xl p-6 text-sm text-slate-300 italic">
+        Segments will appear here once you enter some text.
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-panel rounded-2xl overflow-hidden" onMouseLeave={() => onHover(null)}>
+      <div className="grid grid-cols-[2rem_1fr_1fr_4rem] gap-x-4 px-4 py-2 bg-slate-50 border-b border-slate-200 text-[10px] uppercase font-bold text-slate-400">
+        <span>#</span>
+        <span>Source</span>
+        <span>Translation</span>
+        <span></span>
+      </div>
+      {segments.map((segment, index) => {
+        const translation = translations[segment.id];
+        const isHovered = hoveredId === segment.id;
+        const isEditing = editingId === segment.id;
+        const segmentViolations = violations[segment.id] || [];
+        const originLabel = translation ? ORIGIN_LABELS[translation.origin] : null;
+
+        return (
+          <div
+            key={segment.id}
+            onMouseEnter={() => onHover(segment.id)}
+            className={`grid grid-cols-[2rem_1fr_1fr_4rem] gap-x-4 px-4 py-3 border-b border-slate-100 last:border-b-0 transition-colors ${isHovered ? 'bg-blue-50/60' : ''}`}
+          >
+            <span className="text-xs text-slate-300 font-mono pt-0.5">{index + 1}</span>
+            <p lang={sourceLang || undefined} dir={getTextDirection(sourceLang || 'auto')} className="text-sm text-slate-700 whitespace-pre-wrap">{segment.text}</p>
+            <div lang={targetLang} dir={getTextDirection(targetLang)} className="text-sm text-slate-800">
+              {isEditing ? (
+                <div className="flex flex-col gap-2">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        saveEdit();
+                      } else if (e.key === 'Escape') {
+                        setEditingId(null);
+                      }
+                    }}
+                    autoFocus
+                    rows={2}
+                    className="w-full p-2 border border-blue-200 rounded-lg bg-white focus:outline-none focus:border-blue-400 resize-y"
+                  />
+                  <div className="flex gap-2">
+                    <button onClick={saveEdit} className="text-[10px] font-bold bg-blue-600 text-white px-2 py-1 rounded hover:bg-blue-700">
+                      Save
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-[10px] font-bold text-slate-500 px-2 py-1 rounded hover:bg-slate-100">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : translation?.status === 'error' ? (
+                <span className="text-red-500 text-xs font-medium">Not translated. Retry this segment.</span>
+              ) : translation?.target ? (
+                <p className="whitespace-pre-wrap">
+                  <HighlightedText text={translation.target} ranges={findViolationRanges(translation.target, segmentViolations)} />
+                  {originLabel && (
+                    <span className="ml-2 px-1.5 py-0.5 bg-slate-100 text-slate-500 text-[9px] font-bold rounded-full align-middle">
+                      {originLabel}
+                    </span>
+                  )}
+                </p>
+              ) : (
+                <div className="h-4 bg-slate-100 rounded w-3/4 animate-pulse mt-0.5"></div>
+              )}
+              {segmentViolations.length > 0 && !isEditing && (
+                <p className="text-[10px] text-red-500 mt-1">
+                  {segmentViolations.map(v => `"${v.term.source}" → "${v.expected}"`).join(', ')}
+                </p>
+              )}
+            </div>
+            <div className="flex items-start justify-end gap-1">
+              <button
+                onClick={() => startEditing(segment.id)}
+                disabled={!translation || translation.status === 'translating'}
+                title="Edit translation"
+                className="p-1 text-slate-300 hover:text-blue-600 disabled:opacity-30 transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => onRetranslate(segment.id)}
+                disabled={!translation || translation.status === 'translating' || translation.status === 'pending'}
+                title="Retranslate segment"
+                className="p-1 text-slate-300 hover:text-blue-600 disabled:opacity-30 transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 ${translation?.status === 'translating' ? 'animate-spin' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BilingualView;
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef } from 'react';
+import { ConversationTurn } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+import AudioInputControls from './AudioInputControls';
+
+interface ConversationViewProps {
+  languages: [string, string];
+  turns: ConversationTurn[];
+  // What the current speaker has said so far, before the utterance is complete
+  partial: string;
+  isActive: boolean;
+  isStarting: boolean;
+  autoSpeak: boolean;
+  audioDevices: MediaDeviceInfo[];
+  audioDeviceId: string;
+  inputLevel: number;
+  onChangeAudioDevice: (deviceId: string) => void;
+  onChangeLanguages: (languages: [string, string]) => void;
+  onToggleAutoSpeak: () => void;
+  onStart: () => void;
+  onStop: () => void;
+  onReplay: (turn: ConversationTurn) => void;
+  onClear: () => void;
+}
+
+const languageName = (code: string) => SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+const STATUS_LABELS: Record<ConversationTurn['status'], string> = {
+  translating: 'Translating',
+  speaking: 'Speaking',
+  done: '',
+  error: 'Failed'
+};
+
+const ConversationView: React.FC<ConversationViewProps> = ({
+  languages,
+  turns,
+  partial,
+  isActive,
+  isStarting,
+  autoSpeak,
+  audioDevices,
+  audioDeviceId,
+  inputLevel,
+  onChangeAudioDevice,
+  onChangeLanguages,
+  onToggleAutoSpeak,
+  onStart,
+  onStop,
+  onReplay,
+  onClear
+}) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns, partial]);
+
+  const languageSelect = (index: 0 | 1) => (
+    <select
+      value={languages[index]}
+      onChange={(e) => {
+        const next: [string, string] = [languages[0], languages[1]];
+        next[index] = e.target.value;
+        onChangeLanguages(next);
+      }}
+      disabled={isActive || isStarting}
+      className="px-4 py-2 border border-slate-200 rounded-xl bg-white text-sm font-semibold disabled:opacity-60"
+    >
+      {SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto' && l.code !== languages[1 - index]).map(l => (
+        <option key={l.code} value={l.code}>{l.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          {languageSelect(0)}
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+          </svg>
+          {languageSelect(1)}
+        </div>
+        <div className="flex items-center gap-2">
+          <AudioInputControls
+            devices={audioDevices}
+            deviceId={audioDeviceId}
+            level={inputLevel}
+            isActive={isActive || isStarting}
+            onChangeDevice={onChangeAudioDevice}
+          />
+          <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={autoSpeak} onChange={onToggleAutoSpeak} className="accent-blue-600" />
+            Speak translations
+          </label>
+          <button
+            onClick={onClear}
+            disabled={turns.length === 0 || isActive}
+            className="text-[10px] font-bold text-slate-500 hover:text-red-600 px-2 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-30"
+          >
+            Clear
+          </button>
+          {isActive ? (
+            <button
+              onClick={onStop}
+              className="px-4 py-2 text-sm font-bold text-white bg-red-500 rounded-xl hover:bg-red-600 transition-colors flex items-center gap-2"
+            >
+              <span className="w-2 h-2 bg-white rounded-full animate-pulse"></span>
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={isStarting}
+              className="px-4 py-2 text-sm font-bold text-white bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isStarting ? 'Connecting...' : 'Start conversation'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="min-h-[360px] max-h-[60vh] overflow-y-auto flex flex-col gap-3 bg-white/60 border border-slate-100 rounded-2xl p-4">
+        {turns.length === 0 && !partial && (
+          <p className="m-auto text-sm text-slate-400 italic text-center max-w-sm">
+            Start the conversation and take turns speaking in {languageName(languages[0])} or {languageName(languages[1])}. Each turn is translated for the other person.
+          </p>
+        )}
+        {turns.map(turn => {
+          const isSecond = turn.spokenLang === languages[1];
+          return (
+            <div key={turn.id} className={`flex flex-col max-w-[80%] ${isSecond ? 'self-end items-end' : 'self-start items-start'}`}>
+              <span className="text-[10px] uppercase font-bold text-slate-400 mb-1">
+                {turn.spokenLang ? `${languageName(turn.spokenLang)} → ${languageName(turn.targetLang)}` : 'Detecting language'}
+                {STATUS_LABELS[turn.status] && ` · ${STATUS_LABELS[turn.status]}`}
+              </span>
+              <div className={`rounded-2xl px-4 py-3 shadow-sm ${isSecond ? 'bg-blue-600 text-white rounded-tr-sm' : 'bg-white border border-slate-200 text-slate-800 rounded-tl-sm'}`}>
+                <p className="text-base font-medium">{turn.translated || '...'}</p>
+                <p className={`text-xs mt-1 ${isSecond ? 'text-blue-100' : 'text-slate-400'}`}>{turn.original}</p>
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                {turn.error && <span className="text-[11px] text-red-500">{turn.error}</span>}
+                {turn.translated && (
+                  <button
+                    onClick={() => onReplay(turn)}
+                    title="Play the translation again"
+                    className="text-[10px] font-bold text-slate-400 hover:text-blue-600 transition-colors"
+                  >
+                    Replay
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        {partial && (
+          <div className="self-center max-w-[80%] text-sm text-slate-400 italic text-center">
+            {partial}
+          </div>
+        )}
+        <div ref={bottomRef}></div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationView;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef } from 'react';
+import { DictationUtterance } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+import { formatDictationTime } from '../services/dictation';
+import AudioInputControls from './AudioInputControls';
+
+export type DictationExportFormat = 'srt' | 'txt';
+
+interface DictationViewProps {
+  language: string;
+  utterances: DictationUtterance[];
+  // What has been transcribed of the current utterance so far
+  partial: string;
+  isActive: boolean;
+  isStarting: boolean;
+  audioDevices: MediaDeviceInfo[];
+  audioDeviceId: string;
+  inputLevel: number;
+  onChangeAudioDevice: (deviceId: string) => void;
+  onChangeLanguage: (language: string) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onEdit: (id: string, text: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExport: (format: DictationExportFormat) => void;
+  onTranslateText: () => void;
+  onTranslateSubtitles: () => void;
+}
+
+const DictationView: React.FC<DictationViewProps> = ({
+  language,
+  utterances,
+  partial,
+  isActive,
+  isStarting,
+  audioDevices,
+  audioDeviceId,
+  inputLevel,
+  onChangeAudioDevice,
+  onChangeLanguage,
+  onStart,
+  onStop,
+  onEdit,
+  onDelete,
+  onClear,
+  onExport,
+  onTranslateText,
+  onTranslateSubtitles
+}) => {
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const hasTranscript = utterances.some(u => u.text.trim());
+
+  useEffect(() => {
+    if (isActive) bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [utterances.length, partial, isActive]);
+
+  const actionClass = 'px-3 py-1.5 text-xs font-bold text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <select
+          value={language}
+          onChange={(e) => onChangeLanguage(e.target.value)}
+          disabled={isActive || isStarting}
+          title="Spoken language"
+          className="px-4 py-2 border border-slate-200 rounded-xl bg-white text-sm font-semibold disabled:opacity-60"
+        >
+          {SUPPORTED_LANGUAGES.map(l => (
+            <option key={l.code} value={l.code}>{l.code === 'auto' ? 'Any language' : l.name}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <AudioInputControls
+            devices={audioDevices}
+            deviceId={audioDeviceId}
+            level={inputLevel}
+            isActive={isActive || isStarting}
+            onChangeDevice={onChangeAudioDevice}
+          />
+          <button
+            onClick={onClear}
+            disabled={utterances.length === 0 || isActive}
+            className="text-[10px] font-bold text-slate-500 hover:text-red-600 px-2 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-30"
+          >
+            Clear
+          </button>
+          {isActive ? (
+            <button
+              onClick={onStop}
+              className="px-4 py-2 text-sm font-bold text-white bg-red-500 rounded-xl hover:bg-red-600 transition-colors flex items-center gap-2"
+            >
+              <span className="w-2 h-2 bg-white rounded-full animate-pulse"></span>
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onStart}
+              disabled={isStarting}
+              className="px-4 py-2 text-sm font-bold text-white bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isStarting ? 'Connecting...' : utterances.length > 0 ? 'Resume dictation' : 'Start dictation'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="min-h-[360px] max-h-[60vh] overflow-y-auto flex flex-col gap-1 bg-white/60 border border-slate-100 rounded-2xl p-4">
+        {utterances.length === 0 && !partial && (
+          <p className="m-auto text-sm text-slate-400 italic text-center max-w-sm">
+            Start dictating and each utterance appears here with its time. Click any line to correct it.
+          </p>
+        )}
+        {utterances.map(u => (
+          <div key={u.id} className="group flex items-start gap-3">
+            <span className="text-[11px] font-mono text-slate-400 pt-2 shrink-0" title={`${formatDictationTime(u.start)} – ${formatDictationTime(u.end)}`}>
+              {formatDictationTime(u.start)}
+            </span>
+            <textarea
+              value={u.text}
+              onChange={(e) => onEdit(u.id, e.target.value)}
+              rows={Math.max(1, Math.ceil(u.text.length / 90))}
+              className={`flex-1 resize-none bg-transparent rounded-lg px-2 py-1.5 text-base text-slate-800 focus:outline-none focus:bg-white focus:ring-1 focus:ring-blue-200 ${u.edited ? 'border-l-2 border-blue-300' : ''}`}
+            />
+            <button
+              onClick={() => onDelete(u.id)}
+              title="Remove this utterance"
+              className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-red-500 pt-2 transition-opacity"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        {partial && (
+          <p className="pl-[4.5rem] text-sm text-slate-400 italic">{partial}</p>
+        )}
+        <div ref={bottomRef}></div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <button onClick={() => onExport('txt')} disabled={!hasTranscript} className={actionClass}>Export text</button>
+        <button onClick={() => onExport('srt')} disabled={!hasTranscript} className={actionClass}>Export SRT</button>
+        <button onClick={onTranslateText} disabled={!hasTranscript || isActive} className={actionClass}>Translate as text</button>
+        <button
+          onClick={onTranslateSubtitles}
+          disabled={!hasTranscript || isActive}
+          title="Translate the transcript as timed subtitles"
+          className="px-3 py-1.5 text-xs font-bold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-40"
+        >
+          Translate subtitles
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DictationView;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { DocumentJob, DocumentChunkStatus } from '../types';
+
+interface DocumentJobProgressProps {
+  job: DocumentJob;
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+const CHUNK_CLASSES: Record<DocumentChunkStatus, string> = {
+  pending: 'bg-blue-100',
+  translating: 'bg-blue-300 animate-pulse',
+  done: 'bg-blue-500',
+  failed: 'bg-red-400'
+};
+
+const DocumentJobProgress: React.FC<DocumentJobProgressProps> = ({ job, isRunning, onCancel, onRetry, onDiscard }) => {
+  const total = job.chunks.length;
+  const done = job.chunks.filter(c => c.status === 'done').length;
+  const failed = job.chunks.filter(c => c.status === 'failed');
+  const retrying = job.chunks.filter(c => c.status === 'translating' && c.attempts > 0).length;
+
+  return (
+    <div className="p-8 bg-blue-50/50 rounded-3xl border border-blue-100 flex flex-col gap-4 animate-in fade-in zoom-in duration-300">
+      <div className="flex items-center justify-between text-sm font-semibold text-blue-600">
+        <span className="truncate">{isRunning ? `Translating ${job.fileName}...` : job.fileName}</span>
+        <span className="shrink-0 ml-4">{done} of {total} chunks</span>
+      </div>
+      <div className="flex gap-0.5 h-2 w-full rounded-full overflow-hidden">
+        {job.chunks.map(chunk => (
+          <div
+            key={chunk.index}
+            title={chunk.error ? `Chunk ${chunk.index + 1}: ${chunk.error}` : `Chunk ${chunk.index + 1}`}
+            className={`flex-1 ${CHUNK_CLASSES[chunk.status]}`}
+          />
+        ))}
+      </div>
+
+      {isRunning ? (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-slate-400 italic">
+            {retrying > 0 ? `Retrying ${retrying} chunk(s)...` : 'Progress is saved after every chunk.'}
+          </p>
+          <button
+            onClick={onCancel}
+            className="text-xs font-bold text-slate-500 px-3 py-1.5 rounded-lg hover:bg-white transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : failed.length > 0 && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-red-500 text-left">
+            {failed.length} chunk(s) could not be translated: {failed[0].error}
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={onRetry}
+              className="text-xs font-bold bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Retry failed chunks
+            </button>
+            <button
+              onClick={onDiscard}
+              className="text-xs font-bold text-slate-500 px-3 py-1.5 rounded-lg hover:bg-white transition-colors"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentJobProgress;
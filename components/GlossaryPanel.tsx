@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { GlossaryTerm } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+
+export type GlossaryExportFormat = 'csv' | 'tbx';
+
+interface GlossaryPanelProps {
+  sourceLang: string;
+  targetLang: string;
+  terms: GlossaryTerm[];
+  onAdd: (fields: Omit<GlossaryTerm, 'id' | 'createdAt'>) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: (format: GlossaryExportFormat) => void;
+  onClose: () => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  sourceLang,
+  targetLang,
+  terms,
+  onAdd,
+  onDelete,
+  onImport,
+  onExport,
+  onClose
+}) => {
+  const [termSourceLang, setTermSourceLang] = useState(sourceLang === 'auto' ? 'en' : sourceLang);
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+
+  useEffect(() => {
+    if (sourceLang !== 'auto') setTermSourceLang(sourceLang);
+  }, [sourceLang]);
+
+  const targetName = SUPPORTED_LANGUAGES.find(l => l.code === targetLang)?.name || targetLang;
+  const canAdd = source.trim().length > 0 && (doNotTranslate || target.trim().length > 0);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onAdd({ source, target, sourceLang: termSourceLang, targetLang, doNotTranslate, caseSensitive });
+    setSource('');
+    setTarget('');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 flex flex-col gap-4 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900">Glossary</h2>
+          <p className="text-xs text-slate-500">
+            Terms enforced when translating {sourceLang === 'auto' ? 'any language' : SUPPORTED_LANGUAGES.find(l => l.code === sourceLang)?.name} into {targetName}.
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <label className="cursor-pointer text-xs font-bold text-slate-500 hover:text-blue-600 px-3 py-1.5 rounded-full hover:bg-blue-50 transition-colors">
+            Import CSV/TBX
+            <input type="file" className="hidden" accept=".csv,.tbx,.xml" onChange={handleImport} />
+          </label>
+          <button
+            onClick={() => onExport('csv')}
+            disabled={terms.length === 0}
+            className="text-xs font-bold text-slate-500 hover:text-blue-600 px-3 py-1.5 rounded-full hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => onExport('tbx')}
+            disabled={terms.length === 0}
+            className="text-xs font-bold text-slate-500 hover:text-blue-600 px-3 py-1.5 rounded-full hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export TBX
+          </button>
+          <button onClick={onClose} title="Close Glossary" className="p-2 text-slate-400 hover:text-slate-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+        <select
+          value={termSourceLang}
+          onChange={(e) => setTermSourceLang(e.target.value)}
+          className="px-3 py-2 border border-slate-200 rounded-xl bg-white text-sm font-semibold"
+        >
+          {SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto').map(l => (
+            <option key={l.code} value={l.code}>{l.name}</option>
+          ))}
+        </select>
+        <input
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Source term"
+          className="flex-1 min-w-[140px] px-3 py-2 border border-slate-200 rounded-xl bg-white text-sm focus:outline-none focus:border-blue-400"
+        />
+        <input
+          value={doNotTranslate ? source : target}
+          onChange={(e) => setTarget(e.target.value)}
+          disabled={doNotTranslate}
+          placeholder={`${targetName} term`}
+          className="flex-1 min-w-[140px] px-3 py-2 border border-slate-200 rounded-xl bg-white text-sm focus:outline-none focus:border-blue-400 disabled:bg-slate-50 disabled:text-slate-400"
+        />
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input type="checkbox" checked={doNotTranslate} onChange={(e) => setDoNotTranslate(e.target.checked)} />
+          Do not translate
+        </label>
+        <label className="flex items-center gap-1 text-xs text-slate-600">
+          <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+          Case sensitive
+        </label>
+        <button
+          type="submit"
+          disabled={!canAdd}
+          className="px-4 py-2 bg-blue-600 text-white text-sm font-bold rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-40"
+        >
+          Add
+        </button>
+      </form>
+
+      {terms.length === 0 ? (
+        <p className="text-sm text-slate-300 italic">No terms for this language pair yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-64 overflow-y-auto">
+          {terms.map(term => (
+            <li key={term.id} className="flex items-center gap-3 py-2 text-sm">
+              <span className="text-[10px] uppercase font-bold text-slate-400 w-12">{term.sourceLang}→{term.targetLang}</span>
+              <span className="font-semibold text-slate-800">{term.source}</span>
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-slate-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
+              </svg>
+              <span className="text-slate-600">{term.target}</span>
+              <div className="ml-auto flex items-center gap-1">
+                {term.doNotTranslate && (
+                  <span className="px-2 py-0.5 bg-slate-100 text-slate-500 text-[10px] font-bold rounded-full">DNT</span>
+                )}
+                {term.caseSensitive && (
+                  <span className="px-2 py-0.5 bg-slate-100 text-slate-500 text-[10px] font-bold rounded-full">Aa</span>
+                )}
+                <button
+                  onClick={() => onDelete(term.id)}
+                  title="Remove term"
+                  className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryPanel;
@@ -0,0 +1,40 @@
+import React from 'react';
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+  title?: string;
+}
+
+interface HighlightedTextProps {
+  text: string;
+  ranges: HighlightRange[];
+  markClassName?: string;
+}
+
+// Renders text with the given (sorted, non-overlapping) ranges wrapped in <mark>
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  ranges,
+  markClassName = 'bg-red-100 text-red-700 rounded px-0.5 underline decoration-wavy decoration-red-400'
+}) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, i) => {
+    if (range.start < cursor) return;
+    if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+    parts.push(
+      <mark key={i} title={range.title} className={markClassName}>
+        {text.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
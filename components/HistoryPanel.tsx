@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { TranslationHistoryEntry } from '../types';
+import { HistoryFilters, historyPair, searchHistory } from '../services/history';
+import { toSupportedLanguage } from '../services/languages';
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+interface HistoryPanelProps {
+  entries: TranslationHistoryEntry[];
+  onRestore: (entry: TranslationHistoryEntry) => void;
+  onToggleFavorite: (entry: TranslationHistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExport: (format: HistoryExportFormat, entries: TranslationHistoryEntry[]) => void;
+  onClose: () => void;
+}
+
+const formatPair = (entry: TranslationHistoryEntry) => {
+  // Older entries stored the detected language by name
+  const detected = toSupportedLanguage(entry.detectedLang) || entry.detectedLang;
+  const source = entry.sourceLang === 'auto' && detected ? detected : entry.sourceLang;
+  return `${source.toUpperCase()} → ${entry.targetLang.toUpperCase()}`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  onRestore,
+  onToggleFavorite,
+  onDelete,
+  onClear,
+  onExport,
+  onClose
+}) => {
+  const [filters, setFilters] = useState<HistoryFilters>({ query: '', pair: '', favoritesOnly: false });
+
+  const pairs = useMemo(() => {
+    const seen = new Map<string, TranslationHistoryEntry>();
+    entries.forEach(entry => {
+      if (!seen.has(historyPair(entry))) seen.set(historyPair(entry), entry);
+    });
+    return Array.from(seen.entries());
+  }, [entries]);
+
+  const visible = useMemo(() => searchHistory(entries, filters), [entries, filters]);
+
+  return (
+    <aside className="fixed top-16 right-0 bottom-0 w-full sm:w-96 bg-white border-l border-slate-200 shadow-xl z-20 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900">History</h2>
+          <p className="text-xs text-slate-500">{entries.length} saved translations</p>
+        </div>
+        <button onClick={onClose} title="Close history" className="p-2 text-slate-400 hover:text-slate-700 rounded-full hover:bg-slate-100 transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="px-5 py-3 flex flex-col gap-2 border-b border-slate-100">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => setFilters(prev => ({ ...prev, query: e.target.value }))}
+          placeholder="Search source or translation..."
+          className="w-full px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-blue-400"
+        />
+        <div className="flex items-center gap-2">
+          <select
+            value={filters.pair}
+            onChange={(e) => setFilters(prev => ({ ...prev, pair: e.target.value }))}
+            className="flex-1 px-2 py-1.5 text-xs border border-slate-200 rounded-lg bg-white font-semibold text-slate-600"
+          >
+            <option value="">All language pairs</option>
+            {pairs.map(([pair, entry]) => (
+              <option key={pair} value={pair}>{entry.sourceLang.toUpperCase()} → {entry.targetLang.toUpperCase()}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setFilters(prev => ({ ...prev, favoritesOnly: !prev.favoritesOnly }))}
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-colors ${filters.favoritesOnly ? 'bg-amber-50 text-amber-600 border-amber-200' : 'text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+          >
+            ★ Favorites
+          </button>
+        </div>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-slate-100">
+        {visible.length === 0 && (
+          <li className="px-5 py-8 text-sm text-slate-400 italic text-center">
+            {entries.length === 0 ? 'Completed translations will appear here.' : 'No translations match your filters.'}
+          </li>
+        )}
+        {visible.map(entry => (
+          <li key={entry.id} className="group px-5 py-3 hover:bg-blue-50/40 transition-colors">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-[10px] font-bold text-slate-400 uppercase">
+                {formatPair(entry)} · {new Date(entry.updatedAt).toLocaleString()}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => onToggleFavorite(entry)}
+                  title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                  className={`text-sm px-1 transition-colors ${entry.favorite ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                >
+                  {entry.favorite ? '★' : '☆'}
+                </button>
+                <button
+                  onClick={() => onDelete(entry.id)}
+                  title="Delete entry"
+                  className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <button onClick={() => onRestore(entry)} title="Restore into the editor" className="w-full text-left">
+              <p className="text-sm text-slate-700 line-clamp-2">{entry.sourceText}</p>
+              <p className="text-sm text-blue-700 line-clamp-2 mt-0.5">{entry.targetText}</p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="px-5 py-3 border-t border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onExport('csv', visible)}
+            disabled={visible.length === 0}
+            className="text-[10px] font-bold text-slate-500 hover:text-blue-600 px-2 py-1 rounded hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => onExport('json', visible)}
+            disabled={visible.length === 0}
+            className="text-[10px] font-bold text-slate-500 hover:text-blue-600 px-2 py-1 rounded hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export JSON
+          </button>
+        </div>
+        <button
+          onClick={onClear}
+          disabled={entries.every(e => e.favorite)}
+          title="Delete all entries except favorites"
+          className="text-[10px] font-bold text-slate-500 hover:text-red-600 px-2 py-1 rounded hover:bg-red-50 transition-colors disabled:opacity-30"
+        >
+          Clear history
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default HistoryPanel;
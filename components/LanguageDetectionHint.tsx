@@ -0,0 +1,66 @@
+import React from 'react';
+import { LanguageDetection } from '../types';
+import { getLanguageName } from '../services/languages';
+
+interface LanguageDetectionHintProps {
+  // Ranked on-device detection for the current source text
+  candidates: LanguageDetection[];
+  sourceLang: string;
+  // Language the text seems to be in when it isn't the selected one
+  suggestion: string | null;
+  onSelect: (language: string) => void;
+  onDismiss: () => void;
+}
+
+// Candidates below this share are noise rather than alternatives worth offering
+const MIN_SHOWN_CONFIDENCE = 0.05;
+
+const LanguageDetectionHint: React.FC<LanguageDetectionHintProps> = ({
+  candidates,
+  sourceLang,
+  suggestion,
+  onSelect,
+  onDismiss
+}) => {
+  if (sourceLang === 'auto') {
+    const shown = candidates.filter(c => c.confidence >= MIN_SHOWN_CONFIDENCE);
+    if (shown.length === 0) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-1 px-1">
+        <span className="text-[10px] uppercase font-bold text-slate-400 mr-1">Looks like</span>
+        {shown.map(c => (
+          <button
+            key={c.language}
+            onClick={() => onSelect(c.language)}
+            title={`Translate from ${getLanguageName(c.language)}`}
+            className="text-[10px] font-medium bg-white border border-slate-200 text-slate-600 px-2 py-0.5 rounded-full hover:border-blue-300 hover:text-blue-600 transition-colors"
+          >
+            {getLanguageName(c.language)} {Math.round(c.confidence * 100)}%
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  if (!suggestion) return null;
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800">
+      <span className="flex-1">
+        Did you mean to translate from <strong>{getLanguageName(suggestion)}</strong>?
+      </span>
+      <button
+        onClick={() => onSelect(suggestion)}
+        className="px-2 py-0.5 font-bold text-amber-900 bg-amber-100 rounded-lg hover:bg-amber-200 transition-colors"
+      >
+        Translate from {getLanguageName(suggestion)}
+      </button>
+      <button onClick={onDismiss} title="Keep the selected language" className="text-amber-400 hover:text-amber-700">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default LanguageDetectionHint;
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Language, LanguagePrefs } from '../types';
+import { getLanguage, searchLanguages } from '../services/languages';
+
+interface LanguagePickerProps {
+  value: string;
+  languages: Language[];
+  prefs: LanguagePrefs;
+  onChange: (code: string) => void;
+  onTogglePin: (code: string) => void;
+  // Shown instead of the selected language's name, e.g. with the detected language
+  label?: string;
+  title?: string;
+  className?: string;
+}
+
+interface PickerSection {
+  title: string;
+  languages: Language[];
+}
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({
+  value,
+  languages,
+  prefs,
+  onChange,
+  onTogglePin,
+  label,
+  title,
+  className = ''
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  // Pinned and recent languages come first until the user starts searching
+  const sections = useMemo((): PickerSection[] => {
+    if (query.trim()) return [{ title: 'Results', languages: searchLanguages(languages, query) }];
+    const byCode = (codes: string[]) =>
+      codes.map(code => languages.find(l => l.code === code)).filter((l): l is Language => !!l);
+    return [
+      { title: 'Pinned', languages: byCode(prefs.pinned) },
+      { title: 'Recent', languages: byCode(prefs.recent.filter(code => !prefs.pinned.includes(code))) },
+      { title: 'All languages', languages }
+    ].filter(section => section.languages.length > 0);
+  }, [languages, prefs, query]);
+
+  const options = sections.flatMap(section => section.languages);
+
+  const open = () => {
+    setQuery('');
+    setHighlighted(0);
+    setIsOpen(true);
+  };
+
+  const select = (code: string) => {
+    onChange(code);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(prev => Math.min(Math.max(prev + step, 0), options.length - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (options[highlighted]) select(options[highlighted].code);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  let index = 0;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        title={title}
+        className={`flex items-center gap-1 text-sm font-semibold text-slate-700 focus:outline-none ${className}`}
+      >
+        {label || getLanguage(value)?.name || value}
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-3.5 w-3.5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 mt-2 w-72 bg-white border border-slate-200 rounded-xl shadow-lg z-30 flex flex-col" onKeyDown={handleKeyDown}>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setHighlighted(0);
+            }}
+            placeholder="Search languages..."
+            className="m-2 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-blue-200"
+          />
+          <div className="max-h-80 overflow-y-auto pb-2">
+            {options.length === 0 && (
+              <p className="px-4 py-3 text-xs text-slate-400 italic">No language matches "{query}"</p>
+            )}
+            {sections.map(section => (
+              <div key={section.title}>
+                <p className="px-4 pt-2 pb-1 text-[10px] uppercase font-bold text-slate-400">{section.title}</p>
+                {section.languages.map(language => {
+                  const optionIndex = index++;
+                  const isPinned = prefs.pinned.includes(language.code);
+                  return (
+                    <div
+                      key={`${section.title}-${language.code}`}
+                      onMouseEnter={() => setHighlighted(optionIndex)}
+                      className={`group flex items-center gap-2 px-2 mx-2 rounded-lg ${optionIndex === highlighted ? 'bg-blue-50' : ''}`}
+                    >
+                      <button
+                        onClick={() => select(language.code)}
+                        className={`flex-1 flex items-baseline gap-2 py-1.5 text-left text-sm ${language.code === value ? 'font-bold text-blue-600' : 'text-slate-700'}`}
+                      >
+                        {language.name}
+                        {language.code !== 'auto' && (
+                          <span lang={language.code} dir={language.dir} className="text-xs text-slate-400">{language.native}</span>
+                        )}
+                      </button>
+                      {language.code !== 'auto' && (
+                        <>
+                          <span className="text-[10px] font-mono text-slate-300">{language.code}</span>
+                          <button
+                            onClick={() => onTogglePin(language.code)}
+                            title={isPinned ? 'Unpin' : 'Pin to the top'}
+                            className={`p-1 transition-colors ${isPinned ? 'text-amber-400' : 'text-slate-200 opacity-0 group-hover:opacity-100 hover:text-amber-400'}`}
+                          >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
+                              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                            </svg>
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LanguagePicker;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { MultiTargetResult } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+
+export type FanOutExportFormat = 'zip' | 'json';
+
+interface MultiTargetPanelProps {
+  targets: string[];
+  results: MultiTargetResult[];
+  isTranslating: boolean;
+  canTranslate: boolean;
+  // The source changed after these results were produced
+  isStale: boolean;
+  onToggleTarget: (lang: string) => void;
+  onTranslate: () => void;
+  onCancel: () => void;
+  onCopy: (text: string) => void;
+  onExport: (format: FanOutExportFormat) => void;
+}
+
+const languageName = (code: string) => SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+const MultiTargetPanel: React.FC<MultiTargetPanelProps> = ({
+  targets,
+  results,
+  isTranslating,
+  canTranslate,
+  isStale,
+  onToggleTarget,
+  onTranslate,
+  onCancel,
+  onCopy,
+  onExport
+}) => {
+  const hasFinished = results.some(r => r.status === 'done' && r.text);
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900">Multi-target</h2>
+          <p className="text-xs text-slate-500">Translate the source into every selected language at once.</p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => onExport('zip')}
+            disabled={!hasFinished || isTranslating}
+            className="text-[10px] font-bold text-slate-500 hover:text-blue-600 px-2 py-1 rounded hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export ZIP
+          </button>
+          <button
+            onClick={() => onExport('json')}
+            disabled={!hasFinished || isTranslating}
+            className="text-[10px] font-bold text-slate-500 hover:text-blue-600 px-2 py-1 rounded hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export JSON
+          </button>
+          {isTranslating ? (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-bold text-slate-600 bg-white border border-slate-200 rounded-xl hover:bg-slate-50 transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onTranslate}
+              disabled={!canTranslate || targets.length === 0}
+              className="px-4 py-2 text-sm font-bold text-white bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-40"
+            >
+              Translate to {targets.length} language{targets.length === 1 ? '' : 's'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto').map(lang => {
+          const selected = targets.includes(lang.code);
+          return (
+            <button
+              key={lang.code}
+              onClick={() => onToggleTarget(lang.code)}
+              disabled={isTranslating}
+              className={`px-3 py-1 text-xs font-semibold rounded-full border transition-colors disabled:opacity-50 ${selected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'}`}
+            >
+              {lang.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {isStale && results.length > 0 && !isTranslating && (
+        <p className="text-xs text-amber-600">The source text changed since these translations were made.</p>
+      )}
+
+      {results.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {results.map(result => (
+            <div key={result.lang} className="bg-white border border-slate-200 rounded-xl p-4 flex flex-col gap-2 min-h-[120px]">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] uppercase font-bold text-slate-400">{languageName(result.lang)}</span>
+                <div className="flex items-center gap-1">
+                  {result.status === 'translating' && (
+                    <span className="w-1.5 h-1.5 bg-blue-600 rounded-full animate-pulse"></span>
+                  )}
+                  <button
+                    onClick={() => onCopy(result.text)}
+                    disabled={!result.text}
+                    title="Copy translation"
+                    className="p-1 text-slate-300 hover:text-blue-600 disabled:opacity-30 transition-colors"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                      <path d="M8 3a1 1 0 011-1h2a1 1 0 110 2H9a1 1 0 01-1-1z" />
+                      <path d="M6 3a2 2 0 00-2 2v11a2 2 0 002 2h8a2 2 0 002-2V5a2 2 0 00-2-2 3 3 0 01-3 3H9a3 3 0 01-3-3z" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+              {result.status === 'error' ? (
+                <p className="text-xs text-red-500">{result.error}</p>
+              ) : result.text ? (
+                <p className="text-sm text-slate-800 whitespace-pre-wrap">{result.text}</p>
+              ) : (
+                <div className="space-y-2 animate-pulse">
+                  <div className="h-3 bg-slate-100 rounded w-3/4"></div>
+                  <div className="h-3 bg-slate-100 rounded w-1/2"></div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MultiTargetPanel;
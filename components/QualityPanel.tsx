@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Segment, SegmentQuality, SegmentTranslation } from '../types';
+import { isRiskySegment } from '../services/qualityCheck';
+
+interface QualityPanelProps {
+  segments: Segment[];
+  translations: Record<string, SegmentTranslation>;
+  quality: Record<string, SegmentQuality>;
+  isRunning: boolean;
+  // Empty when back-translation is possible, otherwise the reason it isn't
+  runBlockedReason: string;
+  hoveredId: string | null;
+  onHover: (id: string | null) => void;
+  onRun: () => void;
+}
+
+const DIFF_CLASSES = {
+  equal: 'text-slate-600',
+  removed: 'bg-red-50 text-red-600 line-through decoration-red-300',
+  added: 'bg-emerald-50 text-emerald-700'
+};
+
+const scoreClass = (quality: SegmentQuality) =>
+  isRiskySegment(quality)
+    ? 'bg-amber-50 text-amber-700 border-amber-200'
+    : 'bg-emerald-50 text-emerald-700 border-emerald-200';
+
+const QualityPanel: React.FC<QualityPanelProps> = ({
+  segments,
+  translations,
+  quality,
+  isRunning,
+  runBlockedReason,
+  hoveredId,
+  onHover,
+  onRun
+}) => {
+  const [riskyOnly, setRiskyOnly] = useState(false);
+
+  const checked = segments.filter(s => quality[s.id]);
+  const risky = checked.filter(s => isRiskySegment(quality[s.id]));
+  const visible = riskyOnly ? risky : checked;
+  const average = checked.length
+    ? checked.reduce((sum, s) => sum + quality[s.id].score, 0) / checked.length
+    : 0;
+
+  return (
+    <div className="glass-panel rounded-2xl overflow-hidden" onMouseLeave={() => onHover(null)}>
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-slate-100">
+        <div>
+          <h2 className="text-lg font-bold text-slate-900">Quality check</h2>
+          <p className="text-xs text-slate-500">
+            {checked.length === 0
+              ? 'Translated segments will be checked here.'
+              : `Average score ${Math.round(average * 100)} · ${risky.length} of ${checked.length} segments flagged`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <button
+            onClick={() => setRiskyOnly(prev => !prev)}
+            className={`px-3 py-1.5 text-xs font-bold rounded-lg border transition-colors ${riskyOnly ? 'bg-amber-50 text-amber-600 border-amber-200' : 'text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+          >
+            Flagged only
+          </button>
+          <button
+            onClick={onRun}
+            disabled={isRunning || checked.length === 0 || !!runBlockedReason}
+            title={runBlockedReason || 'Translate the output back into the source language and compare'}
+            className="px-4 py-2 text-sm font-bold text-white bg-blue-600 rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-40"
+          >
+            {isRunning ? 'Back-translating...' : 'Back-translate'}
+          </button>
+        </div>
+      </div>
+
+      {visible.map(segment => {
+        const result = quality[segment.id];
+        return (
+          <div
+            key={segment.id}
+            onMouseEnter={() => onHover(segment.id)}
+            className={`px-6 py-3 border-b border-slate-100 last:border-b-0 flex flex-col gap-1.5 transition-colors ${hoveredId === segment.id ? 'bg-blue-50/60' : ''}`}
+          >
+            <div className="flex items-start gap-3">
+              <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border shrink-0 ${scoreClass(result)}`}>
+                {Math.round(result.score * 100)}
+              </span>
+              <p className="text-sm text-slate-800">{translations[segment.id]?.target}</p>
+            </div>
+            {result.diff && (
+              <p className="text-xs pl-11" title="Source compared with the back-translation">
+                {result.diff.map((part, i) => (
+                  <span key={i} className={DIFF_CLASSES[part.type]}>{part.text}</span>
+                ))}
+              </p>
+            )}
+            {result.issues.length > 0 && (
+              <ul className="pl-11 flex flex-col gap-0.5">
+                {result.issues.map((issue, i) => (
+                  <li key={i} className="text-[11px] text-amber-700">⚠ {issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QualityPanel;
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { ScannedPage } from '../types';
+import { renderTranslatedPage } from '../services/scannedDocument';
+import { getTextDirection } from '../services/languages';
+
+interface ScannedPagePreviewProps {
+  pages: ScannedPage[];
+  targetLang: string;
+  onBlockChange: (pageIndex: number, blockId: string, translatedText: string) => void;
+  onDownloadPdf: () => void;
+  onDownloadPng: (pageIndex: number) => void;
+  isExporting: boolean;
+}
+
+const ScannedPagePreview: React.FC<ScannedPagePreviewProps> = ({
+  pages,
+  targetLang,
+  onBlockChange,
+  onDownloadPdf,
+  onDownloadPng,
+  isExporting
+}) => {
+  const [pageIndex, setPageIndex] = useState(0);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const page = pages[Math.min(pageIndex, pages.length - 1)];
+  const selectedBlock = page.blocks.find(b => b.id === selectedBlockId);
+
+  // The preview is drawn by the same code as the export, so it matches the download exactly
+  useEffect(() => {
+    let cancelled = false;
+    renderTranslatedPage(page, targetLang)
+      .then(canvas => {
+        if (!cancelled) setPreviewUrl(canvas.toDataURL('image/jpeg'));
+      })
+      .catch(err => console.error('Failed to render page preview:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [page, targetLang]);
+
+  const goToPage = (index: number) => {
+    setPageIndex(index);
+    setSelectedBlockId(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-left">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+          {pages.length > 1 && (
+            <>
+              <button
+                onClick={() => goToPage(pageIndex - 1)}
+                disabled={pageIndex === 0}
+                className="px-2 py-1 rounded-lg hover:bg-slate-100 disabled:opacity-30"
+              >
+                ‹
+              </button>
+              <span>Page {pageIndex + 1} of {pages.length}</span>
+              <button
+                onClick={() => goToPage(pageIndex + 1)}
+                disabled={pageIndex === pages.length - 1}
+                className="px-2 py-1 rounded-lg hover:bg-slate-100 disabled:opacity-30"
+              >
+                ›
+              </button>
+            </>
+          )}
+          <span className="text-slate-400 font-normal">{page.blocks.length} text block(s) found</span>
+        </div>
+        <button
+          onClick={() => setShowOriginal(prev => !prev)}
+          className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${showOriginal ? 'bg-slate-800 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+        >
+          {showOriginal ? 'Showing original' : 'Show original'}
+        </button>
+      </div>
+
+      <div className="relative rounded-2xl overflow-hidden border border-slate-200 bg-slate-50">
+        <img
+          src={showOriginal || !previewUrl ? page.image : previewUrl}
+          alt={showOriginal ? 'Original page' : 'Translated page'}
+          className="block w-full h-auto"
+        />
+        {!showOriginal && page.blocks.map(block => (
+          <button
+            key={block.id}
+            onClick={() => setSelectedBlockId(block.id === selectedBlockId ? null : block.id)}
+            title={block.sourceText}
+            style={{
+              left: `${block.box.x * 100}%`,
+              top: `${block.box.y * 100}%`,
+              width: `${block.box.width * 100}%`,
+              height: `${block.box.height * 100}%`
+            }}
+            className={`absolute rounded-sm transition-colors ${block.id === selectedBlockId ? 'ring-2 ring-blue-500 bg-blue-500/10' : 'hover:ring-2 hover:ring-blue-300'}`}
+          />
+        ))}
+      </div>
+
+      {selectedBlock ? (
+        <div className="p-3 bg-white border border-slate-200 rounded-xl flex flex-col gap-2">
+          <p className="text-xs text-slate-500">
+            <span className="uppercase font-bold text-[10px] text-slate-400 mr-2">Original</span>
+            {selectedBlock.sourceText}
+          </p>
+          <textarea
+            // Keyed by block so switching blocks resets the draft; changes apply when leaving the field
+            key={`${pageIndex}-${selectedBlock.id}`}
+            defaultValue={selectedBlock.translatedText}
+            onBlur={(e) => {
+              if (e.target.value !== selectedBlock.translatedText) onBlockChange(pageIndex, selectedBlock.id, e.target.value);
+            }}
+            lang={targetLang}
+            dir={getTextDirection(targetLang)}
+            rows={2}
+            className="w-full px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-blue-200 resize-none"
+          />
+        </div>
+      ) : (
+        <p className="text-xs text-slate-400 italic">Click a block to see the original text and correct its translation.</p>
+      )}
+
+      <div className="flex justify-center gap-3">
+        <button
+          onClick={onDownloadPdf}
+          disabled={isExporting}
+          className="px-6 py-3 bg-blue-600 text-white font-bold rounded-2xl hover:bg-blue-700 transition-all disabled:opacity-50"
+        >
+          Download PDF
+        </button>
+        <button
+          onClick={() => onDownloadPng(pageIndex)}
+          disabled={isExporting}
+          className="px-6 py-3 bg-white border border-slate-200 text-slate-700 font-bold rounded-2xl hover:bg-slate-50 transition-all disabled:opacity-50"
+        >
+          Download {pages.length > 1 ? 'page ' : ''}as PNG
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScannedPagePreview;
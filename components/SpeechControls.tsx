@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { SpeechSettings, SpeechStyle } from '../types';
+import { TTS_VOICES, SPEECH_RATE_OPTIONS, SPEECH_STYLE_OPTIONS, SUPPORTED_LANGUAGES } from '../constants';
+import { getVoiceForLanguage } from '../services/speech';
+
+export type SpeechPlaybackState = 'idle' | 'playing' | 'paused';
+
+interface SpeechControlsProps {
+  settings: SpeechSettings;
+  // Language the voice choice is remembered for
+  language: string;
+  playback: SpeechPlaybackState;
+  isExporting: boolean;
+  disabled: boolean;
+  onChangeSettings: (settings: SpeechSettings) => void;
+  onPlay: () => void;
+  onTogglePause: () => void;
+  onStop: () => void;
+  onDownload: () => void;
+}
+
+const buttonClass = 'p-2 text-slate-400 hover:text-blue-600 transition-colors disabled:opacity-30';
+const selectClass = 'w-full px-2 py-1 border border-slate-200 rounded-lg bg-white text-xs font-semibold text-slate-600';
+
+const SpeechControls: React.FC<SpeechControlsProps> = ({
+  settings,
+  language,
+  playback,
+  isExporting,
+  disabled,
+  onChangeSettings,
+  onPlay,
+  onTogglePause,
+  onStop,
+  onDownload
+}) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const languageName = SUPPORTED_LANGUAGES.find(l => l.code === language && l.code !== 'auto')?.name;
+
+  return (
+    <div className="relative flex items-center">
+      {playback === 'idle' ? (
+        <button onClick={onPlay} disabled={disabled} title="Listen" className={buttonClass}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+            <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.983 5.983 0 01-1.757 4.243 1 1 0 01-1.415-1.415A3.984 3.984 0 0013 10a3.984 3.984 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
+          </svg>
+        </button>
+      ) : (
+        <>
+          <button onClick={onTogglePause} title={playback === 'paused' ? 'Resume' : 'Pause'} className={`${buttonClass} text-blue-600`}>
+            {playback === 'paused' ? (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M6.3 2.841A1.5 1.5 0 004 4.11v11.78a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" />
+              </svg>
+            ) : (
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                <path d="M5.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75A.75.75 0 007.25 3h-1.5zM12.75 3a.75.75 0 00-.75.75v12.5c0 .414.336.75.75.75h1.5a.75.75 0 00.75-.75V3.75a.75.75 0 00-.75-.75h-1.5z" />
+              </svg>
+            )}
+          </button>
+          <button onClick={onStop} title="Stop" className={`${buttonClass} text-red-500 hover:text-red-600`}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <rect x="5" y="5" width="10" height="10" rx="1.5" />
+            </svg>
+          </button>
+        </>
+      )}
+      <button onClick={onDownload} disabled={disabled || isExporting} title="Download audio (WAV)" className={buttonClass}>
+        {isExporting ? (
+          <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+        )}
+      </button>
+      <button
+        onClick={() => setShowOptions(prev => !prev)}
+        title="Voice options"
+        className={`${buttonClass} ${showOptions ? 'text-blue-600' : ''}`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+        </svg>
+      </button>
+
+      {showOptions && (
+        <div className="absolute bottom-full left-0 mb-2 w-56 bg-white border border-slate-200 rounded-xl shadow-lg p-3 z-20 flex flex-col gap-2">
+          <label className="text-[10px] uppercase font-bold text-slate-400">
+            Voice{languageName && ` for ${languageName}`}
+            <select
+              value={getVoiceForLanguage(settings, language)}
+              onChange={(e) => onChangeSettings({ ...settings, voices: { ...settings.voices, [language]: e.target.value } })}
+              className={`${selectClass} mt-1 normal-case`}
+            >
+              {TTS_VOICES.map(v => (
+                <option key={v.name} value={v.name}>{v.name} · {v.description}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-[10px] uppercase font-bold text-slate-400">
+            Speed
+            <select
+              value={settings.rate}
+              onChange={(e) => onChangeSettings({ ...settings, rate: Number(e.target.value) })}
+              className={`${selectClass} mt-1 normal-case`}
+            >
+              {SPEECH_RATE_OPTIONS.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-[10px] uppercase font-bold text-slate-400">
+            Style
+            <select
+              value={settings.style}
+              onChange={(e) => onChangeSettings({ ...settings, style: e.target.value as SpeechStyle })}
+              className={`${selectClass} mt-1 normal-case`}
+            >
+              {SPEECH_STYLE_OPTIONS.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeechControls;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { TranslationStyle } from '../types';
+import { FORMALITY_OPTIONS, TONE_OPTIONS, DOMAIN_OPTIONS } from '../constants';
+import { getFormalityForms } from '../services/translationStyle';
+
+interface StyleControlsProps {
+  style: TranslationStyle;
+  targetLang: string;
+  onChange: (style: TranslationStyle) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const StyleControls: React.FC<StyleControlsProps> = ({ style, targetLang, onChange, disabled, className = '' }) => {
+  const forms = getFormalityForms(targetLang);
+  const selectClass = 'bg-transparent text-[11px] font-semibold text-slate-500 hover:text-blue-600 focus:outline-none cursor-pointer disabled:opacity-50';
+
+  // Show the concrete form (vous, Sie, keigo...) when the target language has one
+  const formalityLabel = (value: TranslationStyle['formality'], label: string) =>
+    forms && value !== 'default' ? `${label} (${forms[value]})` : label;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <select
+        value={style.formality}
+        onChange={(e) => onChange({ ...style, formality: e.target.value as TranslationStyle['formality'] })}
+        disabled={disabled}
+        title="Formality"
+        className={selectClass}
+      >
+        {FORMALITY_OPTIONS.map(o => (
+          <option key={o.value} value={o.value}>{formalityLabel(o.value, o.label)}</option>
+        ))}
+      </select>
+      <select
+        value={style.tone}
+        onChange={(e) => onChange({ ...style, tone: e.target.value as TranslationStyle['tone'] })}
+        disabled={disabled}
+        title="Tone"
+        className={selectClass}
+      >
+        {TONE_OPTIONS.map(o => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+      <select
+        value={style.domain}
+        onChange={(e) => onChange({ ...style, domain: e.target.value as TranslationStyle['domain'] })}
+        disabled={disabled}
+        title="Domain"
+        className={selectClass}
+      >
+        {DOMAIN_OPTIONS.map(o => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default StyleControls;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { TranslationMemoryMatch } from '../types';
+
+interface TranslationMemoryPanelProps {
+  matches: TranslationMemoryMatch[];
+  entryCount: number;
+  exactHit: boolean;
+  onApply: (match: TranslationMemoryMatch) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const TranslationMemoryPanel: React.FC<TranslationMemoryPanelProps> = ({
+  matches,
+  entryCount,
+  exactHit,
+  onApply,
+  onImport,
+  onExport
+}) => {
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="glass-panel rounded-xl px-4 py-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] uppercase font-bold text-slate-400">Translation Memory</span>
+          <span className="text-[10px] text-slate-400">{entryCount} segments</span>
+          {exactHit && (
+            <span className="px-2 py-0.5 bg-emerald-50 text-emerald-600 text-[10px] font-bold rounded-full border border-emerald-100">
+              100% Match
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <label className="cursor-pointer text-[10px] font-bold text-slate-500 hover:text-blue-600 px-2 py-1 rounded hover:bg-blue-50 transition-colors">
+            Import TMX
+            <input type="file" className="hidden" accept=".tmx,.xml" onChange={handleImport} />
+          </label>
+          <button
+            onClick={onExport}
+            disabled={entryCount === 0}
+            className="text-[10px] font-bold text-slate-500 hover:text-blue-600 px-2 py-1 rounded hover:bg-blue-50 transition-colors disabled:opacity-30"
+          >
+            Export TMX
+          </button>
+        </div>
+      </div>
+
+      {matches.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {matches.map(match => (
+            <li key={match.entry.id}>
+              <button
+                onClick={() => onApply(match)}
+                title={match.entry.sourceText}
+                className="w-full text-left flex items-start gap-2 p-2 rounded-lg hover:bg-blue-50/50 transition-colors"
+              >
+                <span className="px-2 py-0.5 bg-amber-50 text-amber-600 text-[10px] font-bold rounded-full border border-amber-100 shrink-0">
+                  {Math.round(match.score * 100)}%
+                </span>
+                <span className="text-sm text-slate-600 line-clamp-2">{match.entry.targetText}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TranslationMemoryPanel;
@@ -1,33 +1,155 @@
 
-import { Language } from './types';
+import { Language, TranslationProviderId, Formality, Tone, Domain, SpeechStyle } from './types';
 
+// Variants follow their general language. Adding a language only takes an entry here.
 export const SUPPORTED_LANGUAGES: Language[] = [
-  { code: 'auto', name: 'Detect Language', native: 'Detect' },
-  { code: 'en', name: 'English', native: 'English' },
-  { code: 'es', name: 'Spanish', native: 'Español' },
-  { code: 'fr', name: 'French', native: 'Français' },
-  { code: 'de', name: 'German', native: 'Deutsch' },
-  { code: 'it', name: 'Italian', native: 'Italiano' },
-  { code: 'pt', name: 'Portuguese', native: 'Português' },
-  { code: 'nl', name: 'Dutch', native: 'Nederlands' },
-  { code: 'ru', name: 'Russian', native: 'Русский' },
-  { code: 'zh', name: 'Chinese', native: '中文' },
-  { code: 'ja', name: 'Japanese', native: '日本語' },
-  { code: 'ko', name: 'Korean', native: '한국어' },
-  { code: 'ar', name: 'Arabic', native: 'العربية' },
-  { code: 'tr', name: 'Turkish', native: 'Türkçe' },
-  { code: 'hi', name: 'Hindi', native: 'हिन्दी' },
-  { code: 'pl', name: 'Polish', native: 'Polski' },
-  { code: 'vi', name: 'Vietnamese', native: 'Tiếng Việt' },
-  { code: 'th', name: 'Thai', native: 'ไทย' },
-  { code: 'sv', name: 'Swedish', native: 'Svenska' },
-  { code: 'da', name: 'Danish', native: 'Dansk' },
-  { code: 'no', name: 'Norwegian', native: 'Norsk' },
-  { code: 'fi', name: 'Finnish', native: 'Suomi' }
+  { code: 'auto', name: 'Detect Language', native: 'Detect', script: 'Zyyy', dir: 'ltr' },
+  { code: 'en', name: 'English', native: 'English', script: 'Latn', dir: 'ltr' },
+  { code: 'es', name: 'Spanish', native: 'Español', script: 'Latn', dir: 'ltr' },
+  { code: 'es-ES', name: 'Spanish (Spain)', native: 'Español (España)', script: 'Latn', dir: 'ltr', base: 'es' },
+  { code: 'es-MX', name: 'Spanish (Mexico)', native: 'Español (México)', script: 'Latn', dir: 'ltr', base: 'es' },
+  { code: 'fr', name: 'French', native: 'Français', script: 'Latn', dir: 'ltr' },
+  { code: 'de', name: 'German', native: 'Deutsch', script: 'Latn', dir: 'ltr' },
+  { code: 'it', name: 'Italian', native: 'Italiano', script: 'Latn', dir: 'ltr' },
+  { code: 'pt', name: 'Portuguese', native: 'Português', script: 'Latn', dir: 'ltr' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)', native: 'Português (Brasil)', script: 'Latn', dir: 'ltr', base: 'pt' },
+  { code: 'pt-PT', name: 'Portuguese (Portugal)', native: 'Português (Portugal)', script: 'Latn', dir: 'ltr', base: 'pt' },
+  { code: 'nl', name: 'Dutch', native: 'Nederlands', script: 'Latn', dir: 'ltr' },
+  { code: 'ru', name: 'Russian', native: 'Русский', script: 'Cyrl', dir: 'ltr' },
+  { code: 'zh', name: 'Chinese', native: '中文', script: 'Hans', dir: 'ltr' },
+  { code: 'zh-Hans', name: 'Chinese (Simplified)', native: '简体中文', script: 'Hans', dir: 'ltr', base: 'zh' },
+  { code: 'zh-Hant', name: 'Chinese (Traditional)', native: '繁體中文', script: 'Hant', dir: 'ltr', base: 'zh' },
+  { code: 'ja', name: 'Japanese', native: '日本語', script: 'Jpan', dir: 'ltr' },
+  { code: 'ko', name: 'Korean', native: '한국어', script: 'Kore', dir: 'ltr' },
+  { code: 'ar', name: 'Arabic', native: 'العربية', script: 'Arab', dir: 'rtl' },
+  { code: 'tr', name: 'Turkish', native: 'Türkçe', script: 'Latn', dir: 'ltr' },
+  { code: 'hi', name: 'Hindi', native: 'हिन्दी', script: 'Deva', dir: 'ltr' },
+  { code: 'pl', name: 'Polish', native: 'Polski', script: 'Latn', dir: 'ltr' },
+  { code: 'vi', name: 'Vietnamese', native: 'Tiếng Việt', script: 'Latn', dir: 'ltr' },
+  { code: 'th', name: 'Thai', native: 'ไทย', script: 'Thai', dir: 'ltr' },
+  { code: 'sv', name: 'Swedish', native: 'Svenska', script: 'Latn', dir: 'ltr' },
+  { code: 'da', name: 'Danish', native: 'Dansk', script: 'Latn', dir: 'ltr' },
+  { code: 'no', name: 'Norwegian', native: 'Norsk', script: 'Latn', dir: 'ltr' },
+  { code: 'fi', name: 'Finnish', native: 'Suomi', script: 'Latn', dir: 'ltr' }
+];
+
+export const FORMALITY_OPTIONS: { value: Formality; label: string }[] = [
+  { value: 'default', label: 'Default formality' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'informal', label: 'Informal' }
+];
+
+export const TONE_OPTIONS: { value: Tone; label: string }[] = [
+  { value: 'neutral', label: 'Neutral tone' },
+  { value: 'marketing', label: 'Marketing' },
+  { value: 'casual', label: 'Casual' }
+];
+
+export const DOMAIN_OPTIONS: { value: Domain; label: string }[] = [
+  { value: 'general', label: 'General' },
+  { value: 'legal', label: 'Legal' },
+  { value: 'medical', label: 'Medical' },
+  { value: 'technical', label: 'Technical' },
+  { value: 'ui', label: 'UI strings' }
+];
+
+// How each language expresses formality, shown in the picker and spelled out in prompts
+export const FORMALITY_FORMS: Record<string, { formal: string; informal: string }> = {
+  fr: { formal: 'vous', informal: 'tu' },
+  de: { formal: 'Sie', informal: 'du' },
+  es: { formal: 'usted', informal: 'tú' },
+  it: { formal: 'Lei', informal: 'tu' },
+  pt: { formal: 'o senhor / a senhora', informal: 'você / tu' },
+  'pt-BR': { formal: 'o senhor / a senhora', informal: 'você' },
+  'pt-PT': { formal: 'o senhor / a senhora', informal: 'tu' },
+  nl: { formal: 'u', informal: 'jij' },
+  ru: { formal: 'вы', informal: 'ты' },
+  pl: { formal: 'Pan / Pani', informal: 'ty' },
+  tr: { formal: 'siz', informal: 'sen' },
+  ja: { formal: 'keigo (敬語)', informal: 'casual speech (タメ口)' },
+  ko: { formal: 'jondaetmal (존댓말)', informal: 'banmal (반말)' },
+  hi: { formal: 'aap (आप)', informal: 'tum (तुम)' },
+  sv: { formal: 'ni', informal: 'du' },
+  da: { formal: 'De', informal: 'du' },
+  no: { formal: 'De', informal: 'du' },
+  fi: { formal: 'te', informal: 'sinä' }
+};
+
+// Prebuilt Gemini TTS voices; all of them speak every supported language
+export const TTS_VOICES: { name: string; description: string }[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Iapetus', description: 'Clear' },
+  { name: 'Achernar', description: 'Soft' },
+  { name: 'Gacrux', description: 'Mature' },
+  { name: 'Sulafat', description: 'Warm' }
+];
+
+export const SPEECH_RATE_OPTIONS: { value: number; label: string }[] = [
+  { value: 0.75, label: 'Slow' },
+  { value: 1, label: 'Normal' },
+  { value: 1.25, label: 'Fast' }
+];
+
+export const SPEECH_STYLE_OPTIONS: { value: SpeechStyle; label: string }[] = [
+  { value: 'natural', label: 'Natural' },
+  { value: 'cheerful', label: 'Cheerful' },
+  { value: 'calm', label: 'Calm' },
+  { value: 'serious', label: 'Serious' },
+  { value: 'storytelling', label: 'Storytelling' }
 ];
 
 export const APP_CONFIG = {
   NAME: 'LingoAI',
   MODEL_TEXT: 'gemini-3-flash-preview',
-  MODEL_TTS: 'gemini-2.5-flash-preview-tts'
+  MODEL_TTS: 'gemini-2.5-flash-preview-tts',
+  MODEL_LIVE: 'gemini-2.5-flash-native-audio-preview-12-2025',
+  // 'gemini' calls the live API, 'mock' runs fully offline with deterministic output
+  PROVIDER: (process.env.TRANSLATION_PROVIDER || 'gemini') as TranslationProviderId,
+  // Minimum similarity (0-1) for a translation memory entry to be offered as a fuzzy match
+  TM_FUZZY_THRESHOLD: 0.7,
+  // Large documents are split at paragraph boundaries into chunks of roughly this many tokens
+  DOCUMENT_CHUNK_TOKENS: 1500,
+  DOCUMENT_CONCURRENCY: 3,
+  DOCUMENT_MAX_ATTEMPTS: 3,
+  DOCUMENT_RETRY_DELAY_MS: 1000,
+  // Default line length for translated subtitle cues (common broadcast guideline)
+  SUBTITLE_CHARS_PER_LINE: 42,
+  // Oldest non-favorite history entries are pruned beyond this count
+  HISTORY_MAX_ENTRIES: 500,
+  // Edits within this gap keep updating the same history entry instead of adding new ones
+  HISTORY_SESSION_GAP_MS: 60000,
+  HISTORY_SAVE_DELAY_MS: 1500,
+  // Target languages translated at the same time in multi-target mode
+  FAN_OUT_CONCURRENCY: 4,
+  // Variants offered when rephrasing part of a translation
+  ALTERNATIVES_COUNT: 3,
+  // Segments scoring below this get a warning marker in the target panel
+  QA_WARNING_THRESHOLD: 0.7,
+  TTS_DEFAULT_VOICE: 'Kore',
+  // Gemini TTS returns 16-bit mono PCM at this rate
+  TTS_SAMPLE_RATE: 24000,
+  // Text to speak is split at sentence boundaries into requests of at most this many characters
+  TTS_CHUNK_CHARS: 600,
+  // Rate limits, network and server errors are retried with exponential backoff
+  API_MAX_ATTEMPTS: 3,
+  API_RETRY_BASE_MS: 1000,
+  API_RETRY_MAX_MS: 30000,
+  // On-device language identification stays quiet below this many letters
+  LANGUAGE_ID_MIN_LETTERS: 3,
+  // "Did you mean to translate from X?" needs a longer text and a clear winner
+  LANGUAGE_ID_SUGGEST_MIN_LETTERS: 15,
+  LANGUAGE_ID_SUGGEST_CONFIDENCE: 0.85,
+  // Languages remembered in the picker's "Recent" section
+  RECENT_LANGUAGES_MAX: 5,
+  // Photos and scanned pages are scaled to at most this many pixels on the long side for OCR
+  OCR_MAX_IMAGE_PX: 2048,
+  OCR_JPEG_QUALITY: 0.9,
+  // Each scanned page is a separate request
+  OCR_MAX_PAGES: 20
 };
@@ -0,0 +1,155 @@
+import { CaptureResult, createCapturePipeline } from "./audioProcessing";
+
+// Microphone capture on an AudioWorklet. The worklet only batches raw samples
+// and posts them to the main thread; resampling, metering and voice activity
+// detection happen in the pure pipeline from audioProcessing.ts.
+
+const PROCESSOR_NAME = 'lingoai-capture';
+// Samples are posted roughly this often
+const BLOCK_MS = 40;
+
+const WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.blockSize = options.processorOptions.blockSize;
+    this.buffer = new Float32Array(this.blockSize);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.buffer[this.length++] = channel[i];
+      if (this.length === this.blockSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.blockSize);
+        this.length = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+export interface AudioCaptureOptions {
+  deviceId?: string;
+  // The requested device is gone (unplugged, or its id changed) and the default microphone is used instead
+  onDeviceUnavailable?: () => void;
+  // Leave out silent stretches; the level meter keeps running either way
+  skipSilence?: boolean;
+  // 16 kHz 16-bit mono PCM
+  onAudio: (pcm: Int16Array) => void;
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  onLevel?: (level: number) => void;
+}
+
+export interface AudioCapture {
+  setMuted(muted: boolean): void;
+  stop(): Promise<void>;
+}
+
+export const listAudioInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
+
+// getUserMedia rejects with terse DOMExceptions; these say what to do about them
+const MICROPHONE_ERRORS: Record<string, string> = {
+  NotAllowedError: 'Microphone access was blocked. Allow it in the browser\'s site settings and try again.',
+  NotFoundError: 'No microphone was found. Connect one and try again.',
+  NotReadableError: 'The microphone is in use by another application. Close it and try again.',
+  OverconstrainedError: 'The selected microphone is no longer available. Pick another one and try again.'
+};
+
+const openMicrophone = (deviceId?: string) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true
+    }
+  });
+
+export const startAudioCapture = async ({
+  deviceId,
+  onDeviceUnavailable,
+  skipSilence = true,
+  onAudio,
+  onSpeechStart,
+  onSpeechEnd,
+  onLevel
+}: AudioCaptureOptions): Promise<AudioCapture> => {
+  let stream: MediaStream;
+  try {
+    try {
+      stream = await openMicrophone(deviceId);
+    } catch (err: any) {
+      // A saved device id outlives the device; fall back to the default microphone
+      if (!deviceId || (err?.name !== 'OverconstrainedError' && err?.name !== 'NotFoundError')) throw err;
+      stream = await openMicrophone();
+      onDeviceUnavailable?.();
+    }
+  } catch (err: any) {
+    throw new Error(MICROPHONE_ERRORS[err?.name] || err?.message || 'Could not access the microphone.');
+  }
+
+  // Runs at the hardware rate; browsers don't reliably honour a requested 16 kHz
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let node: AudioWorkletNode;
+  let source: MediaStreamAudioSourceNode;
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+    source = context.createMediaStreamSource(stream);
+    node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      processorOptions: { blockSize: Math.round((context.sampleRate * BLOCK_MS) / 1000) }
+    });
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    context.close();
+    throw err;
+  }
+
+  const pipeline = createCapturePipeline({ inputSampleRate: context.sampleRate, skipSilence });
+  let muted = false;
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    const result: CaptureResult = pipeline(muted ? new Float32Array(event.data.length) : event.data);
+    onLevel?.(result.level);
+    if (result.speechStarted) onSpeechStart?.();
+    if (result.pcm.length > 0) onAudio(result.pcm);
+    if (result.speechEnded) onSpeechEnd?.();
+  };
+
+  source.connect(node);
+  // The node outputs silence; connecting it keeps the graph pulling audio through it
+  node.connect(context.destination);
+
+  let stopped = false;
+  return {
+    setMuted: (value: boolean) => {
+      muted = value;
+    },
+    stop: async () => {
+      if (stopped) return;
+      stopped = true;
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      await context.close();
+    }
+  };
+};
@@ -0,0 +1,210 @@
+// Pure signal processing for microphone capture: resampling to the rate the
+// Live API expects, voice activity detection and input level metering.
+// Nothing here touches Web Audio, so it runs unchanged on synthetic PCM.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Analysis frame for level and voice activity
+const FRAME_MS = 20;
+
+export interface VadOptions {
+  // Frames quieter than this RMS are never speech, however quiet the room
+  minThreshold: number;
+  // How far above the tracked noise floor a frame must be to count as speech
+  noiseRatio: number;
+  // Consecutive loud frames needed to start speech, so clicks don't open it
+  onsetFrames: number;
+  // Speech continues this long after the last loud frame, bridging pauses between words
+  hangoverMs: number;
+  // Audio kept from before the onset so the first syllable isn't clipped
+  preRollMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  minThreshold: 0.01,
+  noiseRatio: 3,
+  onsetFrames: 2,
+  hangoverMs: 600,
+  preRollMs: 300
+};
+
+export interface CaptureResult {
+  // 16-bit PCM at CAPTURE_SAMPLE_RATE to send; empty while silent
+  pcm: Int16Array;
+  // Loudest frame in this block, 0 (silence) to 1 (full scale)
+  level: number;
+  speaking: boolean;
+  // Set on the block where silence turned into speech, and the reverse
+  speechStarted: boolean;
+  speechEnded: boolean;
+}
+
+const concat = (a: Float32Array, b: Float32Array) => {
+  const result = new Float32Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+};
+
+export const rms = (samples: Float32Array) => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+// Maps RMS onto a 60 dB display range
+export const levelFromRms = (value: number) =>
+  value <= 0 ? 0 : Math.max(0, Math.min(1, (20 * Math.log10(value) + 60) / 60));
+
+export const floatTo16BitPCM = (samples: Float32Array) => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+// Hann-windowed sinc low-pass; cutoff is a fraction of the sample rate
+const lowPassKernel = (cutoff: number, taps: number) => {
+  const kernel = new Float32Array(taps);
+  const middle = (taps - 1) / 2;
+  let sum = 0;
+  for (let i = 0; i < taps; i++) {
+    const x = i - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    kernel[i] = sinc * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (taps - 1)));
+    sum += kernel[i];
+  }
+  return kernel.map(k => k / sum);
+};
+
+// Streaming resampler: anti-aliasing FIR when downsampling, then linear interpolation
+export const createResampler = (inputRate: number, outputRate: number) => {
+  const step = inputRate / outputRate;
+  const kernel = step > 1 ? lowPassKernel(0.45 / step, Math.ceil(step) * 8 + 1) : null;
+  let history = new Float32Array(kernel ? kernel.length - 1 : 0);
+  let pending = new Float32Array(0);
+  let position = 0;
+
+  const lowPass = (input: Float32Array) => {
+    if (!kernel) return input;
+    const padded = concat(history, input);
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      let acc = 0;
+      for (let k = 0; k < kernel.length; k++) acc += padded[i + k] * kernel[k];
+      output[i] = acc;
+    }
+    history = padded.slice(padded.length - history.length);
+    return output;
+  };
+
+  return (input: Float32Array): Float32Array => {
+    if (inputRate === outputRate) return input.slice();
+    const buffer = concat(pending, lowPass(input));
+    const output: number[] = [];
+    while (position + 1 < buffer.length) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      output.push(buffer[index] + (buffer[index + 1] - buffer[index]) * fraction);
+      position += step;
+    }
+    const consumed = Math.min(Math.floor(position), buffer.length);
+    pending = buffer.slice(consumed);
+    position -= consumed;
+    return Float32Array.from(output);
+  };
+};
+
+// Energy-based detector with an adaptive noise floor, fed one frame at a time
+export const createVoiceActivityDetector = (options: VadOptions = DEFAULT_VAD_OPTIONS, frameMs: number = FRAME_MS) => {
+  const hangoverFrames = Math.ceil(options.hangoverMs / frameMs);
+  let noiseFloor = options.minThreshold;
+  let loudFrames = 0;
+  let quietFrames = 0;
+  let speaking = false;
+
+  return (frameRms: number): boolean => {
+    const threshold = Math.max(options.minThreshold, noiseFloor * options.noiseRatio);
+    const loud = frameRms > threshold;
+
+    // The floor drops immediately to quieter frames and creeps up slowly otherwise,
+    // so steady background noise raises it but speech barely does
+    if (frameRms < noiseFloor) noiseFloor = frameRms;
+    else noiseFloor += (frameRms - noiseFloor) * (loud ? 0.001 : 0.05);
+    noiseFloor = Math.max(noiseFloor, options.minThreshold / options.noiseRatio);
+
+    if (loud) {
+      loudFrames++;
+      quietFrames = 0;
+      if (loudFrames >= options.onsetFrames) speaking = true;
+    } else {
+      loudFrames = 0;
+      if (speaking && ++quietFrames > hangoverFrames) speaking = false;
+    }
+    return speaking;
+  };
+};
+
+// Full capture chain for one input stream: resample, cut into frames, meter,
+// detect speech and hand back only the audio worth sending
+export const createCapturePipeline = ({
+  inputSampleRate,
+  vad = DEFAULT_VAD_OPTIONS,
+  skipSilence = true
+}: {
+  inputSampleRate: number;
+  vad?: VadOptions;
+  // With false every frame is passed on, still metered and classified
+  skipSilence?: boolean;
+}) => {
+  const resample = createResampler(inputSampleRate, CAPTURE_SAMPLE_RATE);
+  const detect = createVoiceActivityDetector(vad);
+  const frameSize = (CAPTURE_SAMPLE_RATE * FRAME_MS) / 1000;
+  const preRollFrames = Math.ceil(vad.preRollMs / FRAME_MS);
+  let remainder = new Float32Array(0);
+  let preRoll: Float32Array[] = [];
+  let wasSpeaking = false;
+
+  return (input: Float32Array): CaptureResult => {
+    const samples = concat(remainder, resample(input));
+    const frameCount = Math.floor(samples.length / frameSize);
+    remainder = samples.slice(frameCount * frameSize);
+
+    const send: Float32Array[] = [];
+    let level = 0;
+    let speechStarted = false;
+    let speechEnded = false;
+    for (let f = 0; f < frameCount; f++) {
+      const frame = samples.subarray(f * frameSize, (f + 1) * frameSize);
+      const frameRms = rms(frame);
+      level = Math.max(level, levelFromRms(frameRms));
+      const speaking = detect(frameRms);
+
+      if (speaking && !wasSpeaking) {
+        speechStarted = true;
+        send.push(...preRoll);
+        preRoll = [];
+      }
+      if (speaking || !skipSilence) {
+        send.push(frame);
+      } else {
+        preRoll.push(frame);
+        if (preRoll.length > preRollFrames) preRoll.shift();
+      }
+      if (!speaking && wasSpeaking) speechEnded = true;
+      wasSpeaking = speaking;
+    }
+
+    const total = send.reduce((sum, frame) => sum + frame.length, 0);
+    const merged = new Float32Array(total);
+    let offset = 0;
+    send.forEach(frame => {
+      merged.set(frame, offset);
+      offset += frame.length;
+    });
+
+    return { pcm: floatTo16BitPCM(merged), level, speaking: wasSpeaking, speechStarted, speechEnded };
+  };
+};
@@ -0,0 +1,122 @@
+// Minimal promise wrapper around the app's IndexedDB database.
+// Every persistent store is declared here so upgrades happen in one place.
+
+import { TranslationMemoryEntry } from "../types";
+import { getBaseLanguage, toSupportedLanguage } from "./languages";
+
+const DB_NAME = 'lingoai';
+const DB_VERSION = 5;
+
+export const STORES = {
+  TRANSLATION_MEMORY: 'translationMemory',
+  GLOSSARY: 'glossary',
+  DOCUMENT_JOBS: 'documentJobs',
+  HISTORY: 'history'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Version 5 files translation memory under the base source language and the closest
+// supported target language. The key format is spelled out here rather than taken from
+// translationMemory so this step keeps producing version 5 keys if that format moves on.
+// Entries without a known source language can never be matched and are dropped.
+const rekeyTranslationMemory = (store: IDBObjectStore) => {
+  store.openCursor().onsuccess = event => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const entry = cursor.value as TranslationMemoryEntry;
+    if (!entry.sourceLang || entry.sourceLang === 'auto') {
+      cursor.delete();
+    } else {
+      const pair = `${getBaseLanguage(entry.sourceLang)}|${toSupportedLanguage(entry.targetLang) || entry.targetLang}`;
+      const id = `${pair}|${entry.sourceText}`;
+      if (id !== entry.id) {
+        cursor.delete();
+        store.put({ ...entry, id, pair });
+      }
+    }
+    cursor.continue();
+  };
+};
+
+const upgrade = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+  if (!db.objectStoreNames.contains(STORES.TRANSLATION_MEMORY)) {
+    const store = db.createObjectStore(STORES.TRANSLATION_MEMORY, { keyPath: 'id' });
+    store.createIndex('pair', 'pair', { unique: false });
+  }
+  if (!db.objectStoreNames.contains(STORES.GLOSSARY)) {
+    db.createObjectStore(STORES.GLOSSARY, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.DOCUMENT_JOBS)) {
+    db.createObjectStore(STORES.DOCUMENT_JOBS, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.HISTORY)) {
+    db.createObjectStore(STORES.HISTORY, { keyPath: 'id' });
+  }
+  if (oldVersion > 0 && oldVersion < 5) {
+    rekeyTranslationMemory(transaction.objectStore(STORES.TRANSLATION_MEMORY));
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisify(action(store));
+};
+
+export const getRecord = <T>(storeName: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const getAllRecords = <T>(storeName: StoreName) =>
+  withStore<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const getRecordsByIndex = <T>(storeName: StoreName, indexName: string, value: IDBValidKey) =>
+  withStore<T[]>(storeName, 'readonly', store => store.index(indexName).getAll(value));
+
+export const putRecord = <T>(storeName: StoreName, value: T) =>
+  withStore(storeName, 'readwrite', store => store.put(value));
+
+export const putRecords = async <T>(storeName: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  values.forEach(value => store.put(value));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const deleteRecord = (storeName: StoreName, key: IDBValidKey) =>
+  withStore(storeName, 'readwrite', store => store.delete(key));
+
+export const countRecords = (storeName: StoreName) =>
+  withStore<number>(storeName, 'readonly', store => store.count());
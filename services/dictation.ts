@@ -0,0 +1,115 @@
+import { DictationUtterance, SubtitleDocument, TranslationProvider } from "../types";
+import { APP_CONFIG } from "../constants";
+import { serializeSubtitles, wrapSubtitleText } from "./subtitles";
+import { splitIntoChunks } from "./segmentation";
+import { getBaseLanguage } from "./languages";
+
+const STORAGE_KEY = 'lingoai_dictation';
+// Cues shorter than this are hard to read, so short utterances are stretched
+const MIN_CUE_MS = 1000;
+
+const SENTENCE_END: Record<string, string> = {
+  ja: '。',
+  zh: '。',
+  hi: '।'
+};
+
+export const loadDictation = (): DictationUtterance[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveDictation = (utterances: DictationUtterance[]) => {
+  if (utterances.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(utterances));
+};
+
+// Rule-based tidy-up that works offline: spacing around punctuation, sentence
+// casing and a closing full stop. It never changes the words themselves.
+export const cleanTranscript = (text: string, language?: string) => {
+  let result = text
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\s+([,.!?;:\u3001\u3002\uFF0C\uFF01\uFF1F])/g, '$1')
+    .replace(/([,;!?])(?=\p{L})/gu, '$1 ');
+
+  if (!language || language === 'auto' || language === 'en') result = result.replace(/(^|\s)i(?=['\u2019]|\s|$)/g, '$1I');
+  result = result.replace(/(^|[.!?]\s+)(\p{Ll})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+
+  if (/[\p{L}\p{N}]$/u.test(result)) result += SENTENCE_END[getBaseLanguage(language || '')] || '.';
+  return result;
+};
+
+const wordsOf = (text: string) => text.toLocaleLowerCase().match(/[\p{L}\p{N}]+/gu)?.join(' ') || '';
+
+// Uses the model to restore punctuation and sentence breaks, which rules can't do,
+// but keeps the rule-based result if the model changed any of the words
+export const punctuateUtterance = async (
+  text: string,
+  language: string,
+  provider: TranslationProvider
+) => {
+  const fallback = cleanTranscript(text, language);
+  try {
+    const punctuated = cleanTranscript(await provider.punctuateTranscript(text, language), language);
+    return wordsOf(punctuated) === wordsOf(text) ? punctuated : fallback;
+  } catch (err) {
+    console.error('Punctuation failed:', err);
+    return fallback;
+  }
+};
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+export const formatDictationTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+const formatSrtTime = (ms: number) => `${formatDictationTime(Math.round(ms))},${pad(Math.round(ms) % 1000, 3)}`;
+
+// Long utterances become several two-line cues, with the utterance's time
+// shared out by length since word timings aren't available
+const utteranceCues = (utterance: DictationUtterance, end: number) => {
+  const pieces = splitIntoChunks(utterance.text.trim(), APP_CONFIG.SUBTITLE_CHARS_PER_LINE * 2);
+  const total = pieces.reduce((sum, piece) => sum + piece.length, 0);
+  let start = utterance.start;
+  return pieces.map(piece => {
+    const pieceEnd = start + ((end - utterance.start) * piece.length) / total;
+    const cue = { start, end: pieceEnd, text: piece };
+    start = pieceEnd;
+    return cue;
+  });
+};
+
+export const buildDictationSubtitles = (utterances: DictationUtterance[]): SubtitleDocument => {
+  const spoken = utterances.filter(u => u.text.trim());
+  const cues = spoken.flatMap((u, i) => {
+    const next = spoken[i + 1];
+    let end = Math.max(u.end, u.start + MIN_CUE_MS);
+    if (next && next.start > u.start) end = Math.min(end, next.start);
+    return utteranceCues(u, end);
+  });
+  return {
+    format: 'srt',
+    lineEnding: '\n',
+    blocks: cues.map((cue, i) => ({
+      kind: 'cue',
+      identifier: String(i + 1),
+      timing: `${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}`,
+      lines: wrapSubtitleText(cue.text)
+    }))
+  };
+};
+
+export const exportDictationSRT = (utterances: DictationUtterance[]) =>
+  serializeSubtitles(buildDictationSubtitles(utterances));
+
+export const exportDictationText = (utterances: DictationUtterance[], withTimestamps: boolean = false) =>
+  utterances
+    .filter(u => u.text.trim())
+    .map(u => (withTimestamps ? `[${formatDictationTime(u.start)}] ${u.text.trim()}` : u.text.trim()))
+    .join('\n') + '\n';
@@ -0,0 +1,217 @@
+import { DocumentJob, DocumentChunk, DocumentJobKind, Segment, TranslationProvider, TranslationOptions } from "../types";
+import { APP_CONFIG } from "../constants";
+import { STORES, getAllRecords, putRecord, deleteRecord } from "./db";
+import { protectPlaceholders, protectRunText, restorePlaceholdersStrict, ProtectedText, TEXT_PLACEHOLDER_PATTERN } from "./placeholders";
+import { ServiceError } from "./errors";
+import { splitAroundBlocks } from "./segmentation";
+
+// Long documents are translated as a persisted job: paragraphs are grouped into
+// token-bounded chunks, translated with bounded concurrency, and every finished
+// chunk is saved so the job can resume after a reload or cancellation.
+
+// Localization segments are protected when extracted, so only free-form text
+// and the run text of DOCX paragraphs are protected here
+const PROTECTED_KINDS: DocumentJobKind[] = ['text', 'subtitles', 'docx'];
+
+const protectSegment = (kind: DocumentJobKind, text: string) =>
+  kind === 'docx' ? protectRunText(text) : protectPlaceholders(text, TEXT_PLACEHOLDER_PATTERN);
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Translation cancelled.');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Rough token estimate: ~4 characters per token for alphabetic scripts,
+// one token per character for CJK and other ideographic text
+export const estimateTokens = (text: string) => {
+  const ideographic = text.match(/[\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]/g)?.length || 0;
+  return ideographic + Math.ceil((text.length - ideographic) / 4);
+};
+
+// Splits plain text into paragraphs, keeping the original line breaks as trailing whitespace
+export const splitParagraphs = (text: string): Segment[] => {
+  const segments: Segment[] = [];
+  splitAroundBlocks(text).forEach((piece, pieceIndex) => {
+    // Multi-line code blocks and comments are kept whole so they are protected as one placeholder
+    if (pieceIndex % 2 === 1) {
+      segments.push({ id: `p${segments.length}`, text: piece, trailing: '' });
+      return;
+    }
+    const parts = piece.split(/(\r?\n\s*)/);
+    for (let i = 0; i < parts.length; i += 2) {
+      const separator = parts[i + 1] || '';
+      if (parts[i].trim()) {
+        segments.push({ id: `p${segments.length}`, text: parts[i], trailing: separator });
+      } else if (segments.length > 0) {
+        segments[segments.length - 1].trailing += parts[i] + separator;
+      }
+    }
+  });
+  return segments;
+};
+
+export const chunkSegments = (segments: Pick<Segment, 'id' | 'text'>[], maxTokens: number = APP_CONFIG.DOCUMENT_CHUNK_TOKENS): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  segments.forEach(segment => {
+    const segmentTokens = estimateTokens(segment.text);
+    if (current.length > 0 && tokens + segmentTokens > maxTokens) {
+      chunks.push({ index: chunks.length, segmentIds: current, status: 'pending', attempts: 0 });
+      current = [];
+      tokens = 0;
+    }
+    current.push(segment.id);
+    tokens += segmentTokens;
+  });
+  if (current.length > 0) {
+    chunks.push({ index: chunks.length, segmentIds: current, status: 'pending', attempts: 0 });
+  }
+  return chunks;
+};
+
+export const createDocumentJob = async (params: {
+  fileName: string;
+  kind: DocumentJobKind;
+  sourceLang: string;
+  targetLang: string;
+  segments: Segment[];
+  sourceText: string;
+  file?: Blob;
+}): Promise<DocumentJob> => {
+  const now = Date.now();
+  const job: DocumentJob = {
+    ...params,
+    id: `job_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    status: 'running',
+    chunks: chunkSegments(params.segments),
+    translations: {},
+    createdAt: now,
+    updatedAt: now
+  };
+  await putRecord(STORES.DOCUMENT_JOBS, job);
+  return job;
+};
+
+const saveJob = (job: DocumentJob) => putRecord(STORES.DOCUMENT_JOBS, { ...job, updatedAt: Date.now() });
+
+// Most recent job that did not finish, if any
+export const getResumableJob = async (): Promise<DocumentJob | null> => {
+  const jobs = await getAllRecords<DocumentJob>(STORES.DOCUMENT_JOBS);
+  return jobs
+    .filter(job => job.status !== 'completed')
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0] || null;
+};
+
+export const deleteDocumentJob = (id: string) => deleteRecord(STORES.DOCUMENT_JOBS, id);
+
+export const assembleTextJob = (job: DocumentJob) =>
+  job.segments.map(s => (job.translations[s.id] ?? s.text) + s.trailing).join('');
+
+const abortableDelay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new JobCancelledError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new JobCancelledError());
+    }, { once: true });
+  });
+
+const snapshot = (job: DocumentJob): DocumentJob => ({
+  ...job,
+  chunks: job.chunks.map(chunk => ({ ...chunk })),
+  translations: { ...job.translations }
+});
+
+export const runDocumentJob = async (
+  job: DocumentJob,
+  provider: TranslationProvider,
+  options: TranslationOptions,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (job: DocumentJob) => void } = {}
+): Promise<DocumentJob> => {
+  const segmentsById = new Map(job.segments.map(s => [s.id, s]));
+  const protectedById = new Map<string, ProtectedText>();
+  if (PROTECTED_KINDS.includes(job.kind)) {
+    job.segments.forEach(s => protectedById.set(s.id, protectSegment(job.kind, s.text)));
+  }
+  const report = () => onProgress?.(snapshot(job));
+
+  // Failed chunks get a fresh set of attempts whenever the job is (re)started
+  const queue = job.chunks.filter(chunk => chunk.status !== 'done');
+  queue.forEach(chunk => {
+    chunk.status = 'pending';
+    chunk.attempts = 0;
+    chunk.error = undefined;
+  });
+  job.status = 'running';
+  await saveJob(job);
+  report();
+
+  const translateChunk = async (chunk: DocumentChunk) => {
+    const segments = chunk.segmentIds
+      .map(id => segmentsById.get(id)!)
+      .map(s => ({ id: s.id, text: protectedById.get(s.id)?.text ?? s.text }));
+
+    while (!signal?.aborted) {
+      chunk.status = 'translating';
+      report();
+      try {
+        const translated = await provider.translateDocument(segments, job.sourceLang, job.targetLang, options);
+        if (signal?.aborted) throw new JobCancelledError();
+        const result: Record<string, string> = {};
+        segments.forEach(s => {
+          if (translated[s.id] === undefined) return;
+          const tokens = protectedById.get(s.id)?.tokens;
+          // A dropped or duplicated placeholder fails the chunk so it is retried
+          result[s.id] = tokens ? restorePlaceholdersStrict(translated[s.id], tokens) : translated[s.id];
+        });
+
+        const missing = segments.filter(s => result[s.id] === undefined).length;
+        if (missing > 0) throw new Error(`${missing} paragraph(s) missing from the response.`);
+
+        Object.assign(job.translations, result);
+        chunk.status = 'done';
+        chunk.error = undefined;
+        await saveJob(job);
+        report();
+        return;
+      } catch (err: any) {
+        if (signal?.aborted || err instanceof JobCancelledError) break;
+        chunk.attempts++;
+        chunk.error = err.message || 'Chunk translation failed.';
+        // Bad credentials or blocked content won't change on a retry
+        const permanent = err instanceof ServiceError && !err.isTransient;
+        if (permanent || chunk.attempts >= APP_CONFIG.DOCUMENT_MAX_ATTEMPTS) {
+          chunk.status = 'failed';
+          await saveJob(job);
+          report();
+          return;
+        }
+        // Exponential backoff before retrying just this chunk
+        await abortableDelay(APP_CONFIG.DOCUMENT_RETRY_DELAY_MS * 2 ** (chunk.attempts - 1), signal).catch(() => {});
+      }
+    }
+    chunk.status = 'pending';
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await translateChunk(queue.shift()!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(APP_CONFIG.DOCUMENT_CONCURRENCY, queue.length) }, worker));
+
+  if (signal?.aborted) {
+    job.status = 'paused';
+  } else {
+    job.status = job.chunks.every(chunk => chunk.status === 'done') ? 'completed' : 'failed';
+  }
+  await saveJob(job);
+  report();
+  return snapshot(job);
+};
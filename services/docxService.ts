@@ -0,0 +1,164 @@
+import JSZip from "jszip";
+import { Segment } from "../types";
+
+// DOCX translation that keeps the document's structure: only the text of
+// w:t nodes is replaced, every paragraph, table, list and run property is untouched.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Parts of the package that carry translatable text
+const TEXT_PART_PATTERN = /^word\/(document|header\d*|footer\d*|footnotes|endnotes|comments)\.xml$/;
+
+// Consecutive runs sharing the same formatting, translated as one unit
+interface RunGroup {
+  textNodes: Element[];
+  text: string;
+}
+
+interface DocxParagraph {
+  id: string;
+  groups: RunGroup[];
+}
+
+export interface DocxSegments {
+  segments: Pick<Segment, 'id' | 'text'>[];
+  sourceText: string;
+}
+
+export interface DocxTranslationResult {
+  blob: Blob;
+  text: string;
+  sourceText: string;
+}
+
+const runProperties = (run: Element) => {
+  const rPr = Array.from(run.childNodes).find(
+    (node): node is Element => node.nodeType === Node.ELEMENT_NODE && (node as Element).localName === 'rPr'
+  );
+  return rPr ? new XMLSerializer().serializeToString(rPr) : '';
+};
+
+const parentParagraph = (node: Element) => {
+  let current = node.parentElement;
+  while (current && !(current.localName === 'p' && current.namespaceURI === W_NS)) {
+    current = current.parentElement;
+  }
+  return current;
+};
+
+const collectParagraphs = (doc: Document, partIndex: number): DocxParagraph[] =>
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'p'))
+    .map((paragraph, index) => {
+      const groups: RunGroup[] = [];
+      let lastProps: string | null = null;
+
+      Array.from(paragraph.getElementsByTagNameNS(W_NS, 'r')).forEach(run => {
+        // Runs of nested paragraphs (e.g. text boxes) belong to those paragraphs
+        if (parentParagraph(run) !== paragraph) return;
+        const textNodes = Array.from(run.getElementsByTagNameNS(W_NS, 't'));
+        if (textNodes.length === 0) return;
+
+        const props = runProperties(run);
+        const text = textNodes.map(t => t.textContent || '').join('');
+        if (props === lastProps && groups.length > 0) {
+          const group = groups[groups.length - 1];
+          group.textNodes.push(...textNodes);
+          group.text += text;
+        } else {
+          groups.push({ textNodes, text });
+        }
+        lastProps = props;
+      });
+
+      return { id: `p${partIndex}_${index}`, groups };
+    })
+    .filter(p => p.groups.some(g => g.text.trim()));
+
+// Multi-run paragraphs are sent with <rN> tags so formatting can follow the translated words
+const paragraphToMarkup = (paragraph: DocxParagraph) =>
+  paragraph.groups.length === 1
+    ? paragraph.groups[0].text
+    : paragraph.groups.map((g, i) => `<r${i}>${g.text}</r${i}>`).join('');
+
+const setGroupText = (group: RunGroup, text: string) => {
+  group.textNodes.forEach((node, i) => {
+    node.textContent = i === 0 ? text : '';
+    if (i === 0 && /^\s|\s$/.test(text)) {
+      node.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve');
+    }
+  });
+};
+
+const applyTranslation = (paragraph: DocxParagraph, translated: string) => {
+  if (paragraph.groups.length === 1) {
+    setGroupText(paragraph.groups[0], translated);
+    return;
+  }
+
+  const parts: Record<number, string> = {};
+  for (const match of translated.matchAll(/<r(\d+)>([\s\S]*?)<\/r\1>/g)) {
+    parts[Number(match[1])] = match[2];
+  }
+
+  if (paragraph.groups.every((_, i) => parts[i] !== undefined)) {
+    paragraph.groups.forEach((group, i) => setGroupText(group, parts[i]));
+  } else {
+    // Tags were lost: keep the translation and the first run's formatting
+    const plain = translated.replace(/<\/?r\d+>/g, '');
+    paragraph.groups.forEach((group, i) => setGroupText(group, i === 0 ? plain : ''));
+  }
+};
+
+const plainText = (paragraphs: DocxParagraph[]) =>
+  paragraphs.map(p => p.groups.map(g => g.text).join('')).join('\n');
+
+const translatedText = (paragraphs: DocxParagraph[]) =>
+  paragraphs.map(p => p.groups.map(g => g.textNodes.map(t => t.textContent).join('')).join('')).join('\n');
+
+const loadDocx = async (arrayBuffer: ArrayBuffer) => {
+  const zip = await JSZip.loadAsync(arrayBuffer);
+  const partNames = Object.keys(zip.files).filter(name => TEXT_PART_PATTERN.test(name)).sort();
+  if (!partNames.includes('word/document.xml')) {
+    throw new Error('This file is not a valid DOCX document.');
+  }
+
+  const parts = await Promise.all(partNames.map(async (name, index) => {
+    const doc = new DOMParser().parseFromString(await zip.file(name)!.async('string'), 'application/xml');
+    return { name, doc, paragraphs: collectParagraphs(doc, index) };
+  }));
+
+  return { zip, parts, paragraphs: parts.flatMap(part => part.paragraphs) };
+};
+
+// Translatable units of the document. Ids are derived from document order, so
+// extracting the same file again (e.g. when resuming a job) yields the same ids.
+export const extractDocxSegments = async (arrayBuffer: ArrayBuffer): Promise<DocxSegments> => {
+  const { paragraphs } = await loadDocx(arrayBuffer);
+  return {
+    segments: paragraphs.map(p => ({ id: p.id, text: paragraphToMarkup(p) })),
+    sourceText: plainText(paragraphs)
+  };
+};
+
+export const rebuildDocx = async (
+  arrayBuffer: ArrayBuffer,
+  translations: Record<string, string>
+): Promise<DocxTranslationResult> => {
+  const { zip, parts, paragraphs } = await loadDocx(arrayBuffer);
+  const sourceText = plainText(paragraphs);
+
+  // Untranslated paragraphs keep their original text rather than failing the whole document
+  paragraphs.forEach(p => {
+    if (translations[p.id] !== undefined) applyTranslation(p, translations[p.id]);
+  });
+
+  const serializer = new XMLSerializer();
+  parts.forEach(part => zip.file(part.name, serializer.serializeToString(part.doc)));
+
+  return {
+    blob: await zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE }),
+    text: translatedText(paragraphs),
+    sourceText
+  };
+};
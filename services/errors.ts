@@ -0,0 +1,126 @@
+import { ApiError, FinishReason, GenerateContentResponse } from "@google/genai";
+import { APP_CONFIG } from "../constants";
+
+// Every failure from the translation backend is turned into a ServiceError whose
+// kind decides whether it is retried and whose message tells the user what to do.
+
+export type ServiceErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'network'
+  | 'unavailable'
+  | 'safety'
+  | 'malformed'
+  | 'unsupported_file'
+  | 'unknown';
+
+const MESSAGES: Record<ServiceErrorKind, string> = {
+  auth: 'The API key was rejected. Check that GEMINI_API_KEY is set to a valid Gemini API key.',
+  quota: 'Too many requests. Wait a moment and try again, or check your API quota.',
+  network: 'Could not reach the translation service. Check your internet connection and try again.',
+  unavailable: 'The translation service is temporarily unavailable. Try again in a few moments.',
+  safety: 'The request was blocked by content safety filters. Rephrase or remove the flagged content and try again.',
+  malformed: 'The translation service returned an unexpected response. Try again, or shorten the text if it keeps happening.',
+  unsupported_file: 'This file type is not supported. Upload a PDF, image, Word, text, subtitle or localization file.',
+  unknown: 'Something went wrong. Please try again.'
+};
+
+// Worth retrying automatically: the same request may well succeed a little later
+const TRANSIENT_KINDS: ServiceErrorKind[] = ['quota', 'network', 'unavailable', 'malformed'];
+
+export class ServiceError extends Error {
+  constructor(
+    public kind: ServiceErrorKind,
+    message: string = MESSAGES[kind],
+    // Server-suggested wait before retrying, for rate limits
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+
+  get isTransient() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.RECITATION
+];
+
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/retry(?:Delay"?:\s*"|\s+in\s+)(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// API errors carry the server's JSON error body as their message
+const readableApiMessage = (message: string) => {
+  try {
+    return JSON.parse(message)?.error?.message || message;
+  } catch {
+    return message;
+  }
+};
+
+export const classifyError = (err: unknown): ServiceError => {
+  if (err instanceof ServiceError) return err;
+  const message = (err as Error)?.message || '';
+
+  const status = err instanceof ApiError ? err.status : (err as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    if (status === 401 || status === 403 || /API[ _]?key/i.test(message)) return new ServiceError('auth');
+    if (status === 429) {
+      const retryAfterMs = parseRetryDelay(message);
+      return new ServiceError(
+        'quota',
+        retryAfterMs ? `Too many requests. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` : MESSAGES.quota,
+        retryAfterMs
+      );
+    }
+    if (status >= 500) return new ServiceError('unavailable');
+    if (/mime ?type|unsupported file/i.test(message)) return new ServiceError('unsupported_file');
+    return new ServiceError('unknown', readableApiMessage(message) || MESSAGES.unknown);
+  }
+  if (/API key is missing/i.test(message)) return new ServiceError('auth');
+  if (err instanceof SyntaxError) return new ServiceError('malformed');
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) ||
+      (err instanceof TypeError && /fetch|network|load failed/i.test(message))) {
+    return new ServiceError('network');
+  }
+  return new ServiceError('unknown', message || MESSAGES.unknown);
+};
+
+// Message for the UI: actionable for classified failures, the original message otherwise
+export const errorMessage = (err: unknown, fallback: string) => {
+  const error = classifyError(err);
+  return error.kind === 'unknown' && !(err as Error)?.message ? fallback : error.message;
+};
+
+// Throws when the model refused or returned nothing usable
+export const checkResponse = (response: GenerateContentResponse) => {
+  if (response.promptFeedback?.blockReason) throw new ServiceError('safety');
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) throw new ServiceError('safety');
+  return response;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retries transient failures with exponential backoff and jitter. Errors are
+// always rethrown classified, so callers can rely on getting a ServiceError.
+export const withRetry = async <T>(operation: () => Promise<T>, attempts: number = APP_CONFIG.API_MAX_ATTEMPTS): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      const error = classifyError(err);
+      if (!error.isTransient || attempt >= attempts) throw error;
+      const backoff = APP_CONFIG.API_RETRY_BASE_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      await delay(Math.min(Math.max(backoff, error.retryAfterMs || 0), APP_CONFIG.API_RETRY_MAX_MS));
+    }
+  }
+};
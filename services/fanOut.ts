@@ -0,0 +1,66 @@
+import JSZip from "jszip";
+import { MultiTargetResult, TranslationOptions, TranslationProvider } from "../types";
+import { APP_CONFIG } from "../constants";
+import { protectPlaceholders, restorePartialPlaceholders, restorePlaceholdersStrict, TEXT_PLACEHOLDER_PATTERN } from "./placeholders";
+
+// Multi-target mode: one source text streamed into several target languages,
+// with a bounded number of requests in flight.
+
+export const translateToMany = async (
+  text: string,
+  sourceLang: string,
+  targetLangs: string[],
+  provider: TranslationProvider,
+  {
+    getOptions,
+    signal,
+    onUpdate
+  }: {
+    getOptions?: (targetLang: string) => Promise<TranslationOptions>;
+    signal?: AbortSignal;
+    onUpdate: (result: MultiTargetResult) => void;
+  }
+): Promise<void> => {
+  const queue = [...targetLangs];
+  const protectedText = protectPlaceholders(text, TEXT_PLACEHOLDER_PATTERN);
+
+  const translateOne = async (lang: string) => {
+    let translated = '';
+    onUpdate({ lang, text: '', status: 'translating' });
+    try {
+      const options = getOptions ? await getOptions(lang) : {};
+      for await (const chunk of provider.translateTextStream(protectedText.text, sourceLang, lang, options)) {
+        if (signal?.aborted) return;
+        translated += chunk;
+        onUpdate({ lang, text: restorePartialPlaceholders(translated, protectedText.tokens), status: 'translating' });
+      }
+      onUpdate({ lang, text: restorePlaceholdersStrict(translated.trim(), protectedText.tokens), status: 'done' });
+    } catch (err: any) {
+      if (signal?.aborted) return;
+      console.error(`Translation to ${lang} failed:`, err);
+      const partial = restorePartialPlaceholders(translated, protectedText.tokens);
+      onUpdate({ lang, text: partial, status: 'error', error: err.message || 'Translation failed.' });
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await translateOne(queue.shift()!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(APP_CONFIG.FAN_OUT_CONCURRENCY, queue.length) }, worker));
+};
+
+const finished = (results: MultiTargetResult[]) => results.filter(r => r.status === 'done' && r.text);
+
+// Single JSON object keyed by language code
+export const exportFanOutJSON = (results: MultiTargetResult[]) =>
+  JSON.stringify(Object.fromEntries(finished(results).map(r => [r.lang, r.text])), null, 2);
+
+// Zip archive with one <lang>.txt file per language
+export const exportFanOutZip = (results: MultiTargetResult[]) => {
+  const zip = new JSZip();
+  finished(results).forEach(r => zip.file(`${r.lang}.txt`, r.text));
+  return zip.generateAsync({ type: 'blob' });
+};
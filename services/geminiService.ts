@@ -1,56 +1,150 @@
 
-import { GoogleGenAI, Type, Modality, Blob, GenerateContentResponse } from "@google/genai";
-import { TranslationResult } from "../types";
-import { APP_CONFIG } from "../constants";
+import { GoogleGenAI, Type, Modality, Blob, GenerateContentParameters, Schema, LiveServerMessage } from "@google/genai";
+import { TranslationResult, TranslationProvider, TranslationOptions, Segment, SegmentUpdate, AlternativesRequest, TranslationAlternative, InterpretationResult, SpeechOptions, OcrBlock, TranscriptionCallbacks, TranscriptionSession } from "../types";
+import { APP_CONFIG, SUPPORTED_LANGUAGES } from "../constants";
+import { formatGlossaryForPrompt } from "./glossary";
+import { formatStyleForPrompt } from "./translationStyle";
+import { formatSpeechPrompt } from "./speech";
+import { markSegments, parseMarkedSegments, parseStreamMetadata } from "./segmentation";
+import { toSupportedLanguage } from "./languages";
+import { CAPTURE_SAMPLE_RATE } from "./audioProcessing";
+import { ServiceError, checkResponse, classifyError, withRetry } from "./errors";
+import { parseStructuredResponse } from "./responseSchema";
+import { base64ToBytes, bytesToBase64 } from "../utils/encoding";
 
 export const getAIInstance = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
+// Requests go through these helpers so failures reach callers as classified
+// ServiceErrors, with rate limits and other transient failures retried first
+const generate = (params: GenerateContentParameters) =>
+  withRetry(async () => checkResponse(await getAIInstance().models.generateContent(params)));
+
+const generateStructured = <T>(params: GenerateContentParameters, schema: Schema) =>
+  withRetry(async () => {
+    const response = checkResponse(await getAIInstance().models.generateContent({
+      ...params,
+      config: { ...params.config, responseMimeType: "application/json", responseSchema: schema }
+    }));
+    return parseStructuredResponse<T>(response.text, schema);
+  });
+
+// Only opening the stream is retried; once text has been yielded a retry would repeat it
+async function* generateStream(params: GenerateContentParameters) {
+  const stream = await withRetry(() => getAIInstance().models.generateContentStream(params));
+  try {
+    for await (const chunk of stream) {
+      yield checkResponse(chunk);
+    }
+  } catch (err) {
+    throw classifyError(err);
+  }
+}
+
+const TRANSLATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translatedText: { type: Type.STRING },
+    detectedLanguage: { type: Type.STRING },
+    confidence: { type: Type.NUMBER }
+  },
+  required: ["translatedText", "detectedLanguage", "confidence"]
+};
+
+// Detection is asked for as one of these codes so results line up with the language menus
+const DETECTABLE_CODES = SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto').map(l => l.code).join(', ');
+
+const ALTERNATIVES_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    alternatives: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          explanation: { type: Type.STRING }
+        },
+        required: ["text", "explanation"]
+      }
+    }
+  },
+  required: ["alternatives"]
+};
+
+const DOCUMENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    paragraphs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          translation: { type: Type.STRING }
+        },
+        required: ["id", "translation"]
+      }
+    }
+  },
+  required: ["paragraphs"]
+};
+
+// box_2d is Gemini's native box format: [ymin, xmin, ymax, xmax] scaled to 0-1000
+const OCR_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    blocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          translation: { type: Type.STRING },
+          box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+        },
+        required: ["text", "translation", "box_2d"]
+      }
+    }
+  },
+  required: ["blocks"]
+};
+
 export const translateText = async (
   text: string,
   sourceLang: string,
-  targetLang: string
+  targetLang: string,
+  options: TranslationOptions = {}
 ): Promise<TranslationResult> => {
-  const ai = getAIInstance();
-  
-  const response = await ai.models.generateContent({
+  const result = await generateStructured<TranslationResult>({
     model: APP_CONFIG.MODEL_TEXT,
     contents: `Translate the following text from ${sourceLang === 'auto' ? 'automatically detected language' : sourceLang} to ${targetLang}. 
     Original Text: "${text}"
-    
+    ${formatStyleForPrompt(options.style, targetLang)}
+    ${formatGlossaryForPrompt(options.glossary)}
+    Placeholders such as <x0/> stand for variables, markup or code: copy each one exactly once, unchanged, wherever it belongs in the translation.
     If source language is 'auto', first detect the language.
-    Return only a JSON object with properties: "translatedText", "detectedLanguage", "confidence".`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          translatedText: { type: Type.STRING },
-          detectedLanguage: { type: Type.STRING },
-          confidence: { type: Type.NUMBER }
-        },
-        required: ["translatedText", "detectedLanguage", "confidence"]
-      }
-    }
-  });
-
-  return JSON.parse(response.text);
+    Give "detectedLanguage" as one of these codes: ${DETECTABLE_CODES}, and "confidence" as a number from 0 to 1.
+    Return only a JSON object with properties: "translatedText", "detectedLanguage", "confidence".`
+  }, TRANSLATION_SCHEMA);
+  return { ...result, detectedLanguage: toSupportedLanguage(result.detectedLanguage) };
 };
 
 export async function* translateTextStream(
   text: string,
   sourceLang: string,
-  targetLang: string
+  targetLang: string,
+  options: TranslationOptions = {}
 ) {
-  const ai = getAIInstance();
-  
-  const responseStream = await ai.models.generateContentStream({
+  const responseStream = generateStream({
     model: APP_CONFIG.MODEL_TEXT,
     contents: `Translate the following text from ${sourceLang === 'auto' ? 'automatically detected language' : sourceLang} to ${targetLang}. 
     Original Text: "${text}"
-    
-    Translate naturally and preserve context. Just return the translated text without any other labels or formatting.`,
+    ${formatStyleForPrompt(options.style, targetLang)}
+    ${formatGlossaryForPrompt(options.glossary)}
+    Placeholders such as <x0/> stand for variables, markup or code: copy each one exactly once, unchanged, wherever it belongs in the translation.
+    Preserve context. Just return the translated text without any other labels or formatting.`,
   });
 
   for await (const chunk of responseStream) {
@@ -61,71 +155,265 @@ export async function* translateTextStream(
   }
 }
 
+export async function* translateSegmentsStream(
+  segments: Pick<Segment, 'id' | 'text'>[],
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): AsyncGenerator<SegmentUpdate> {
+  const detect = sourceLang === 'auto' && !!options.onDetection;
+  const responseStream = generateStream({
+    model: APP_CONFIG.MODEL_TEXT,
+    contents: `Translate the following segments from ${sourceLang === 'auto' ? 'automatically detected language' : sourceLang} to ${targetLang}.
+    Each segment is wrapped in a <seg id="..."> element. Return every segment in the same order, wrapped in a <seg> element with the same id, one per line.
+    Translate only the content of each element, using the other segments as context. Do not merge, split or skip segments and do not add any other text.
+    Some segments contain inline tags such as <r0>...</r0> marking formatted runs. Keep every inline tag and wrap it around the corresponding translated words.
+    Placeholders such as <x0/> stand for variables, markup or code: copy each one exactly once, unchanged, wherever it belongs in the translation.
+    ${detect ? `Before the segments, write one line <meta lang="CODE" confidence="N"/> where CODE is the language of the segments, one of: ${DETECTABLE_CODES}, and N is how sure you are, from 0 to 1.` : ''}
+    ${formatStyleForPrompt(options.style, targetLang)}
+    ${formatGlossaryForPrompt(options.glossary)}
+${markSegments(segments)}`,
+  });
+
+  let buffer = '';
+  let detected = false;
+  const emitted: Record<string, string> = {};
+  for await (const chunk of responseStream) {
+    if (!chunk.text) continue;
+    buffer += chunk.text;
+    if (detect && !detected) {
+      const metadata = parseStreamMetadata(buffer);
+      if (metadata) {
+        detected = true;
+        options.onDetection?.({ ...metadata, language: toSupportedLanguage(metadata.language) });
+      }
+    }
+    for (const update of parseMarkedSegments(buffer)) {
+      const key = `${update.done}:${update.text}`;
+      if (emitted[update.id] === key) continue;
+      emitted[update.id] = key;
+      yield update;
+    }
+  }
+}
+
+// Not streamed: a structured response can be retried as a whole when it fails halfway
 export const translateDocument = async (
+  segments: Pick<Segment, 'id' | 'text'>[],
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<Record<string, string>> => {
+  const { paragraphs } = await generateStructured<{ paragraphs: { id: string; translation: string }[] }>({
+    model: APP_CONFIG.MODEL_TEXT,
+    contents: `You are a professional document translator. Translate the following paragraphs of a document from ${sourceLang === 'auto' ? 'automatically detected language' : sourceLang} to ${targetLang}.
+    Each paragraph is wrapped in a <seg id="..."> element. Return every paragraph with the same id, translated on its own but using the rest of the document as context. Do not merge, split or skip paragraphs.
+    Some paragraphs contain inline tags such as <r0>...</r0> marking formatted runs. Keep every inline tag and wrap it around the corresponding translated words.
+    Placeholders such as <x0/> stand for variables, markup or code: copy each one exactly once, unchanged, wherever it belongs in the translation.
+    ${formatStyleForPrompt(options.style, targetLang)}
+    ${formatGlossaryForPrompt(options.glossary)}
+${markSegments(segments)}`
+  }, DOCUMENT_SCHEMA);
+
+  const translations: Record<string, string> = {};
+  paragraphs.forEach(p => {
+    translations[p.id] = p.translation.trim();
+  });
+  return translations;
+};
+
+export const translateImage = async (
   base64Data: string,
   mimeType: string,
   sourceLang: string,
-  targetLang: string
-): Promise<string> => {
-  const ai = getAIInstance();
-  
-  const response = await ai.models.generateContent({
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<OcrBlock[]> => {
+  const { blocks } = await generateStructured<{ blocks: { text: string; translation: string; box_2d: number[] }[] }>({
     model: APP_CONFIG.MODEL_TEXT,
     contents: {
       parts: [
+        { inlineData: { data: base64Data, mimeType } },
         {
-          inlineData: {
-            data: base64Data,
-            mimeType: mimeType
-          }
-        },
-        {
-          text: `You are a professional document translator. Translate the content of this document into ${targetLang}. 
-          ${sourceLang !== 'auto' ? `The source language is ${sourceLang}.` : 'Detect the source language automatically.'}
-          Return ONLY the translated text. Preserve the original structure, headings, and formatting as much as possible in a plain text format.`
+          text: `This is a photo or scan of signage, a form or a printed page. Find every block of legible text on it and translate each one into ${targetLang}.
+          ${sourceLang !== 'auto' ? `The text is in ${sourceLang}.` : 'Detect the language of the text automatically.'}
+          A block is text that reads as one unit: a sign, a heading, a paragraph, a form label, a table cell. Keep form labels and the values written next to them as separate blocks.
+          For each block, return the text exactly as written, its translation, and its box_2d as [ymin, xmin, ymax, xmax] scaled to 0-1000.
+          List the blocks in reading order. Translations replace the original text in place, so keep them about as long and keep numbers, codes and names unchanged.
+          ${formatStyleForPrompt(options.style, targetLang)}
+          ${formatGlossaryForPrompt(options.glossary)}`
         }
       ]
     }
+  }, OCR_SCHEMA);
+
+  const clamp = (value: number) => Math.min(Math.max(value / 1000, 0), 1);
+  return blocks
+    .filter(b => b.text.trim() && b.box_2d.length === 4)
+    .map((b, index) => {
+      const [top, left, bottom, right] = b.box_2d.map(clamp);
+      return {
+        id: `b${index}`,
+        sourceText: b.text.trim(),
+        translatedText: b.translation.trim(),
+        box: { x: left, y: top, width: right - left, height: bottom - top }
+      };
+    })
+    .filter(b => b.box.width > 0 && b.box.height > 0);
+};
+
+export const suggestAlternatives = async (
+  request: AlternativesRequest,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<TranslationAlternative[]> => {
+  const { alternatives } = await generateStructured<{ alternatives: TranslationAlternative[] }>({
+    model: APP_CONFIG.MODEL_TEXT,
+    contents: `A text was translated from ${sourceLang === 'auto' ? 'an automatically detected language' : sourceLang} to ${targetLang}.
+    Source: "${request.sourceText}"
+    Translation: "${request.targetText}"
+    Suggest ${request.count} alternative renderings of this part of the translation: "${request.phrase}"
+    Each alternative must replace exactly that part and fit grammatically into the rest of the translation.
+    Rank them from best to worst and do not repeat the current wording.
+    For each one, explain in one short sentence (in English) how it differs, e.g. more formal, more literal, more idiomatic.
+    ${formatStyleForPrompt(options.style, targetLang)}
+    ${formatGlossaryForPrompt(options.glossary)}
+    Return only a JSON object with an "alternatives" array of objects with "text" and "explanation" properties.`
+  }, ALTERNATIVES_SCHEMA);
+
+  return alternatives
+    .filter(a => a.text.trim() && a.text.trim() !== request.phrase.trim())
+    .slice(0, request.count);
+};
+
+// Conversation mode: the utterance is in one of two known languages and goes into the other
+export const interpretUtterance = async (
+  text: string,
+  languages: [string, string],
+  options: TranslationOptions = {}
+): Promise<InterpretationResult> => {
+  const [first, second] = languages;
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      spokenLanguage: { type: Type.STRING, enum: [first, second] },
+      translatedText: { type: Type.STRING }
+    },
+    required: ["spokenLanguage", "translatedText"]
+  };
+
+  const result = await generateStructured<{ spokenLanguage: string; translatedText: string }>({
+    model: APP_CONFIG.MODEL_TEXT,
+    contents: `You are interpreting a spoken conversation between a ${first} speaker and a ${second} speaker.
+    Utterance (speech transcript, may lack punctuation): "${text}"
+    Decide whether it was spoken in ${first} or ${second}, then translate it into the other language.
+    Keep it natural and spoken, fix obvious transcription slips, and do not add anything that was not said.
+    ${formatStyleForPrompt(options.style, '')}
+    ${formatGlossaryForPrompt(options.glossary)}
+    Return only a JSON object with properties: "spokenLanguage" (exactly "${first}" or "${second}") and "translatedText".`
+  }, schema);
+
+  return { spokenLang: result.spokenLanguage === second ? second : first, translatedText: result.translatedText };
+};
+
+export const punctuateTranscript = async (text: string, language: string): Promise<string> => {
+  const languageHint = language && language !== 'auto' ? ` It is in ${language}.` : '';
+
+  const response = await generate({
+    model: APP_CONFIG.MODEL_TEXT,
+    contents: `This is a raw speech transcript.${languageHint}
+    Add punctuation, capitalization and sentence breaks so it reads as written text.
+    Do not add, remove, reorder or correct any words. Just return the punctuated text.
+    
+    Transcript: ${text}`,
   });
 
-  return response.text || "Failed to translate document.";
+  return response.text?.trim() || text;
 };
 
-export const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
-  const ai = getAIInstance();
+export const generateSpeech = async (text: string, options?: SpeechOptions): Promise<ArrayBuffer> => {
+  const speech = options || { voice: APP_CONFIG.TTS_DEFAULT_VOICE, rate: 1, style: 'natural' };
   
-  const response = await ai.models.generateContent({
+  const response = await generate({
     model: APP_CONFIG.MODEL_TTS,
-    contents: [{ parts: [{ text: `Say clearly and naturally: ${text}` }] }],
+    contents: [{ parts: [{ text: formatSpeechPrompt(text, speech) }] }],
     config: {
       responseModalities: [Modality.AUDIO],
       speechConfig: {
         voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
+          prebuiltVoiceConfig: { voiceName: speech.voice },
         },
       },
     },
   });
 
   const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) throw new Error("No audio data returned");
-
-  // Helper to decode base64 to bytes
-  const binaryString = atob(base64Audio);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  if (!base64Audio) throw new ServiceError('malformed', 'No audio came back for this text. Try again, or shorten the text.');
+
+  return base64ToBytes(base64Audio).buffer;
+};
+
+// Encoding helper for Live API input: 16-bit PCM as produced by the capture pipeline
+const createAudioBlob = (pcm: Int16Array): Blob => ({
+  data: bytesToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+  mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`
+});
+
+// A Live API session used only for its input transcription; the model's own replies are ignored
+export const startTranscription = async (callbacks: TranscriptionCallbacks): Promise<TranscriptionSession> => {
+  try {
+    const session = await getAIInstance().live.connect({
+      model: APP_CONFIG.MODEL_LIVE,
+      callbacks: {
+        onmessage: (message: LiveServerMessage) => {
+          const content = message.serverContent;
+          if (!content) return;
+          if (content.inputTranscription?.text) callbacks.onText(content.inputTranscription.text);
+          // Either signal marks the end of what the speaker said
+          if (content.inputTranscription?.finished || content.turnComplete) callbacks.onTurnEnd();
+        },
+        onerror: (e: ErrorEvent) => {
+          console.error('Live API Error:', e);
+          callbacks.onError(new Error(e.message || 'The live connection failed.'));
+        },
+        onclose: () => callbacks.onClose()
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        systemInstruction: 'Transcribe user speech exactly as heard. Do not generate responses, just transcribe.'
+      }
+    });
+    return {
+      sendAudio: pcm => session.sendRealtimeInput({ audio: createAudioBlob(pcm) }),
+      endAudio: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+      close: () => session.close()
+    };
+  } catch (err) {
+    throw classifyError(err);
   }
-  
-  return bytes.buffer;
+};
+
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  translateText,
+  translateTextStream,
+  translateSegmentsStream,
+  translateDocument,
+  translateImage,
+  suggestAlternatives,
+  interpretUtterance,
+  punctuateTranscript,
+  generateSpeech,
+  startTranscription
 };
 
 // PCM Decoding Utility for Gemini TTS output
 export async function decodeGeminiPCM(
   buffer: ArrayBuffer,
   ctx: AudioContext,
-  sampleRate: number = 24000
+  sampleRate: number = APP_CONFIG.TTS_SAMPLE_RATE
 ): Promise<AudioBuffer> {
   const dataInt16 = new Int16Array(buffer);
   const audioBuffer = ctx.createBuffer(1, dataInt16.length, sampleRate);
@@ -137,25 +425,3 @@ export async function decodeGeminiPCM(
   
   return audioBuffer;
 }
-
-// Encoding helpers for Live API
-export function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
-
-export function createAudioBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
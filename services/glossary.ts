@@ -0,0 +1,193 @@
+import { GlossaryTerm, GlossaryViolation } from "../types";
+import { APP_CONFIG } from "../constants";
+import { escapeXml, parseXml, getXmlLang } from "../utils/xml";
+import { toCsv, parseCsv } from "../utils/csv";
+import { STORES, getAllRecords, putRecord, putRecords, deleteRecord } from "./db";
+import { canonicalLanguageTag, getBaseLanguage } from "./languages";
+
+const CSV_HEADER = ['source', 'target', 'source_lang', 'target_lang', 'do_not_translate', 'case_sensitive'];
+
+const termId = (sourceLang: string, targetLang: string, source: string, caseSensitive: boolean) =>
+  `${sourceLang}|${targetLang}|${caseSensitive ? source : source.toLowerCase()}`;
+
+export const createGlossaryTerm = (
+  fields: Omit<GlossaryTerm, 'id' | 'createdAt'>
+): GlossaryTerm => {
+  const source = fields.source.trim();
+  return {
+    ...fields,
+    source,
+    // A do-not-translate term always renders as itself
+    target: fields.doNotTranslate ? source : fields.target.trim(),
+    id: termId(fields.sourceLang, fields.targetLang, source, fields.caseSensitive),
+    createdAt: Date.now()
+  };
+};
+
+// With an auto-detected source every term for the target language applies. Terms for
+// the base language (pt) also apply to its variants (pt-BR), unless the variant has its own.
+export const getGlossaryTerms = async (sourceLang: string, targetLang: string): Promise<GlossaryTerm[]> => {
+  const baseTarget = getBaseLanguage(targetLang);
+  const terms = (await getAllRecords<GlossaryTerm>(STORES.GLOSSARY))
+    .filter(t => (t.targetLang === targetLang || t.targetLang === baseTarget) && (sourceLang === 'auto' || t.sourceLang === sourceLang));
+  const ownTerms = new Set(terms.filter(t => t.targetLang === targetLang).map(t => termId(t.sourceLang, '', t.source, t.caseSensitive)));
+  return terms
+    .filter(t => t.targetLang === targetLang || !ownTerms.has(termId(t.sourceLang, '', t.source, t.caseSensitive)))
+    .sort((a, b) => a.source.localeCompare(b.source));
+};
+
+export const saveGlossaryTerm = (term: GlossaryTerm) => putRecord(STORES.GLOSSARY, term);
+
+export const deleteGlossaryTerm = (id: string) => deleteRecord(STORES.GLOSSARY, id);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words, where any position can be a word boundary
+const UNSPACED_SCRIPT = '\\p{scx=Han}\\p{scx=Hiragana}\\p{scx=Katakana}\\p{scx=Thai}\\p{scx=Lao}\\p{scx=Khmer}\\p{scx=Myanmar}';
+const UNSPACED_CHAR = new RegExp(`[${UNSPACED_SCRIPT}]`, 'u');
+// A letter or digit of a script that does separate words with spaces
+const SPACED_WORD_CHAR = `(?![${UNSPACED_SCRIPT}])[\\p{L}\\p{N}]`;
+
+// Unicode-aware word boundaries so terms don't match inside longer words. An end of the
+// term in Chinese, Japanese or Thai, or next to text in one of them, needs no boundary:
+// "東京都" contains "東京" and "LingoAIです" contains "LingoAI".
+export const termPattern = (term: string, caseSensitive: boolean) => {
+  const chars = Array.from(term);
+  const before = chars.length && UNSPACED_CHAR.test(chars[0]) ? '' : `(?<!${SPACED_WORD_CHAR})`;
+  const after = chars.length && UNSPACED_CHAR.test(chars[chars.length - 1]) ? '' : `(?!${SPACED_WORD_CHAR})`;
+  return new RegExp(`${before}${escapeRegExp(term)}${after}`, caseSensitive ? 'gu' : 'giu');
+};
+
+export const termsInText = (text: string, terms: GlossaryTerm[]) =>
+  terms.filter(t => termPattern(t.source, t.caseSensitive).test(text));
+
+export const formatGlossaryForPrompt = (terms: GlossaryTerm[] = []) => {
+  if (terms.length === 0) return '';
+  const lines = terms.map(t => {
+    const matching = t.caseSensitive ? 'case-sensitive' : 'case-insensitive';
+    return t.doNotTranslate
+      ? `- "${t.source}" → keep exactly as "${t.source}" (do not translate, ${matching})`
+      : `- "${t.source}" → "${t.target}" (${matching})`;
+  });
+  return `\n    Mandatory terminology. Always render these source terms exactly as specified:\n    ${lines.join('\n    ')}\n`;
+};
+
+export const checkGlossary = (
+  sourceText: string,
+  translatedText: string,
+  terms: GlossaryTerm[]
+): GlossaryViolation[] =>
+  termsInText(sourceText, terms)
+    .map(term => ({ term, expected: term.doNotTranslate ? term.source : term.target }))
+    .filter(({ term, expected }) => !termPattern(expected, term.caseSensitive).test(translatedText));
+
+// Character ranges in the translation where a violated term's source form leaked through untranslated
+export const findViolationRanges = (translatedText: string, violations: GlossaryViolation[]) => {
+  const ranges: { start: number; end: number; title: string }[] = [];
+  violations
+    .filter(v => !v.term.doNotTranslate)
+    .forEach(v => {
+      for (const match of translatedText.matchAll(termPattern(v.term.source, v.term.caseSensitive))) {
+        ranges.push({ start: match.index!, end: match.index! + match[0].length, title: `Glossary: use "${v.expected}"` });
+      }
+    });
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+// CSV import/export
+
+export const exportGlossaryCSV = (terms: GlossaryTerm[]) =>
+  toCsv([
+    CSV_HEADER,
+    ...terms.map(t => [t.source, t.target, t.sourceLang, t.targetLang, t.doNotTranslate, t.caseSensitive])
+  ]);
+
+const parseBoolean = (value: string | undefined) => /^(1|true|yes|y|x)$/i.test((value || '').trim());
+
+export const importGlossaryCSV = async (
+  csv: string,
+  defaultSourceLang: string,
+  defaultTargetLang: string
+): Promise<number> => {
+  const rows = parseCsv(csv);
+  if (rows.length === 0) return 0;
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const hasHeader = header.includes('source');
+  const column = (name: string, fallback: number) => (hasHeader ? header.indexOf(name) : fallback);
+  const [src, tgt, srcLang, tgtLang, dnt, cs] = CSV_HEADER.map((name, i) => column(name, i));
+
+  const terms = (hasHeader ? rows.slice(1) : rows)
+    .filter(row => row[src]?.trim())
+    .map(row => createGlossaryTerm({
+      source: row[src],
+      target: row[tgt] || '',
+      sourceLang: row[srcLang]?.trim() || defaultSourceLang,
+      targetLang: row[tgtLang]?.trim() || defaultTargetLang,
+      doNotTranslate: parseBoolean(row[dnt]) || !row[tgt]?.trim(),
+      caseSensitive: parseBoolean(row[cs])
+    }));
+
+  await putRecords(STORES.GLOSSARY, terms);
+  return terms.length;
+};
+
+// TBX import/export. Flags are kept as custom admin fields on each entry.
+
+export const exportGlossaryTBX = (terms: GlossaryTerm[]) => {
+  const entries = terms.map((t, i) => `      <termEntry id="t${i + 1}">
+        <admin type="x-doNotTranslate">${t.doNotTranslate}</admin>
+        <admin type="x-caseSensitive">${t.caseSensitive}</admin>
+        <langSet xml:lang="${escapeXml(t.sourceLang)}"><tig><term>${escapeXml(t.source)}</term></tig></langSet>
+        <langSet xml:lang="${escapeXml(t.targetLang)}"><tig><term>${escapeXml(t.target)}</term></tig></langSet>
+      </termEntry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX" xml:lang="en">
+  <martifHeader>
+    <fileDesc><sourceDesc><p>${APP_CONFIG.NAME} glossary</p></sourceDesc></fileDesc>
+  </martifHeader>
+  <text>
+    <body>
+${entries.join('\n')}
+    </body>
+  </text>
+</martif>
+`;
+};
+
+// Accepts TBX 2 (termEntry/langSet) and TBX 3 (conceptEntry/langSec)
+export const importGlossaryTBX = async (xml: string): Promise<number> => {
+  const doc = parseXml(xml, 'Invalid TBX file.');
+  const entries = [
+    ...Array.from(doc.getElementsByTagName('termEntry')),
+    ...Array.from(doc.getElementsByTagName('conceptEntry'))
+  ];
+
+  const terms: GlossaryTerm[] = [];
+  entries.forEach(entry => {
+    const flag = (type: string) => Array.from(entry.getElementsByTagName('admin'))
+      .some(el => el.getAttribute('type') === type && el.textContent?.trim() === 'true');
+
+    const langSets = [
+      ...Array.from(entry.getElementsByTagName('langSet')),
+      ...Array.from(entry.getElementsByTagName('langSec'))
+    ]
+      .map(el => ({ lang: canonicalLanguageTag(getXmlLang(el)), term: el.getElementsByTagName('term')[0]?.textContent?.trim() || '' }))
+      .filter(l => l.lang && l.term);
+    if (langSets.length < 2) return;
+
+    const [source, ...targets] = langSets;
+    targets.forEach(target => terms.push(createGlossaryTerm({
+      source: source.term,
+      target: target.term,
+      sourceLang: source.lang,
+      targetLang: target.lang,
+      doNotTranslate: flag('x-doNotTranslate'),
+      caseSensitive: flag('x-caseSensitive')
+    })));
+  });
+
+  await putRecords(STORES.GLOSSARY, terms);
+  return terms.length;
+};
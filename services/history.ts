@@ -0,0 +1,85 @@
+import { TranslationHistoryEntry } from "../types";
+import { APP_CONFIG } from "../constants";
+import { toCsv } from "../utils/csv";
+import { STORES, getAllRecords, putRecord, deleteRecord } from "./db";
+
+export interface HistoryFilters {
+  query: string;
+  // "source|target", or empty for every pair
+  pair: string;
+  favoritesOnly: boolean;
+}
+
+export const historyPair = (entry: Pick<TranslationHistoryEntry, 'sourceLang' | 'targetLang'>) =>
+  `${entry.sourceLang}|${entry.targetLang}`;
+
+export const createHistoryEntry = (
+  fields: Omit<TranslationHistoryEntry, 'id' | 'favorite' | 'createdAt' | 'updatedAt'>
+): TranslationHistoryEntry => {
+  const now = Date.now();
+  return {
+    ...fields,
+    id: `h_${now}_${Math.random().toString(36).slice(2, 8)}`,
+    favorite: false,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Newest first
+export const getHistoryEntries = async () => {
+  const entries = await getAllRecords<TranslationHistoryEntry>(STORES.HISTORY);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Favorites are never pruned
+const pruneHistory = async () => {
+  const entries = await getHistoryEntries();
+  const excess = entries.length - APP_CONFIG.HISTORY_MAX_ENTRIES;
+  if (excess <= 0) return;
+  const removable = entries.filter(e => !e.favorite).slice(-excess);
+  await Promise.all(removable.map(e => deleteRecord(STORES.HISTORY, e.id)));
+};
+
+export const saveHistoryEntry = async (entry: TranslationHistoryEntry) => {
+  await putRecord(STORES.HISTORY, entry);
+  await pruneHistory();
+};
+
+export const deleteHistoryEntry = (id: string) => deleteRecord(STORES.HISTORY, id);
+
+export const clearHistory = async (keepFavorites: boolean = true) => {
+  const entries = await getAllRecords<TranslationHistoryEntry>(STORES.HISTORY);
+  await Promise.all(
+    entries.filter(e => !(keepFavorites && e.favorite)).map(e => deleteRecord(STORES.HISTORY, e.id))
+  );
+};
+
+export const searchHistory = (entries: TranslationHistoryEntry[], filters: HistoryFilters) => {
+  const query = filters.query.trim().toLocaleLowerCase();
+  return entries.filter(entry =>
+    (!filters.favoritesOnly || entry.favorite) &&
+    (!filters.pair || historyPair(entry) === filters.pair) &&
+    (!query ||
+      entry.sourceText.toLocaleLowerCase().includes(query) ||
+      entry.targetText.toLocaleLowerCase().includes(query))
+  );
+};
+
+export const exportHistoryCSV = (entries: TranslationHistoryEntry[]) =>
+  toCsv([
+    ['timestamp', 'source_lang', 'target_lang', 'detected_lang', 'confidence', 'favorite', 'source', 'target'],
+    ...entries.map(e => [
+      new Date(e.updatedAt).toISOString(),
+      e.sourceLang,
+      e.targetLang,
+      e.detectedLang,
+      e.confidence,
+      e.favorite,
+      e.sourceText,
+      e.targetText
+    ])
+  ]);
+
+export const exportHistoryJSON = (entries: TranslationHistoryEntry[]) =>
+  JSON.stringify(entries, null, 2);
@@ -0,0 +1,192 @@
+import { ProtectedText, createProtector, restorePlaceholders, PLACEHOLDER_PATTERN } from "./placeholders";
+
+// Minimal ICU MessageFormat support: plural/select/selectordinal arguments are
+// split into their sub-messages so each one is translated as its own text,
+// while selectors, argument names and the surrounding syntax stay untouched.
+
+export interface IcuComplexArgument {
+  // "{count, plural," plus any offset, written back verbatim
+  head: string;
+  options: { prefix: string; message: IcuMessage }[];
+  tail: string;
+  plural: boolean;
+}
+
+export interface IcuMessage {
+  // Literal text and simple arguments ({name}, {n, number}) are kept as strings
+  parts: (string | IcuComplexArgument)[];
+}
+
+const COMPLEX_TYPES = ['plural', 'select', 'selectordinal'];
+
+class IcuSyntaxError extends Error {}
+
+const readUntil = (src: string, start: number, stops: string) => {
+  let i = start;
+  while (i < src.length && !stops.includes(src[i])) i++;
+  return i;
+};
+
+const readWhitespace = (src: string, start: number) => {
+  let i = start;
+  while (i < src.length && /\s/.test(src[i])) i++;
+  return i;
+};
+
+// Index of the brace that closes the one at start, honouring nesting and ICU quoting
+const matchingBrace = (src: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < src.length; i++) {
+    if (src[i] === "'" && src[i + 1] === "'") i++;
+    else if (src[i] === "'" && (src[i + 1] === '{' || src[i + 1] === '}')) i = readUntil(src, i + 1, "'");
+    else if (src[i] === '{') depth++;
+    else if (src[i] === '}' && --depth === 0) return i;
+  }
+  throw new IcuSyntaxError('Unbalanced braces');
+};
+
+const parseArgument = (src: string, start: number): { part: string | IcuComplexArgument; end: number } => {
+  const nameEnd = readUntil(src, start + 1, ',}');
+  if (src[nameEnd] !== ',') {
+    const end = matchingBrace(src, start);
+    return { part: src.slice(start, end + 1), end: end + 1 };
+  }
+
+  const typeEnd = readUntil(src, nameEnd + 1, ',}');
+  const type = src.slice(nameEnd + 1, typeEnd).trim();
+  if (!COMPLEX_TYPES.includes(type) || src[typeEnd] !== ',') {
+    const end = matchingBrace(src, start);
+    return { part: src.slice(start, end + 1), end: end + 1 };
+  }
+
+  const argument: IcuComplexArgument = { head: src.slice(start, typeEnd + 1), options: [], tail: '', plural: type !== 'select' };
+  let pending = '';
+  let i = typeEnd + 1;
+  while (i < src.length) {
+    const selectorStart = readWhitespace(src, i);
+    if (src[selectorStart] === '}') {
+      argument.tail = pending + src.slice(i, selectorStart + 1);
+      return { part: argument, end: selectorStart + 1 };
+    }
+    const selectorEnd = readUntil(src, selectorStart, '{} \t\r\n');
+    if (selectorEnd === selectorStart) throw new IcuSyntaxError('Missing selector');
+    const selector = src.slice(selectorStart, selectorEnd);
+
+    if (selector.startsWith('offset:')) {
+      pending += src.slice(i, selectorEnd);
+      i = selectorEnd;
+      continue;
+    }
+
+    const braceStart = readWhitespace(src, selectorEnd);
+    if (src[braceStart] !== '{') throw new IcuSyntaxError(`Missing message for "${selector}"`);
+    const { message, end } = parseMessage(src, braceStart + 1, true);
+    argument.options.push({ prefix: pending + src.slice(i, braceStart + 1), message });
+    pending = '';
+    i = end + 1;
+  }
+  throw new IcuSyntaxError('Unterminated argument');
+};
+
+const parseMessage = (src: string, start: number, nested: boolean): { message: IcuMessage; end: number } => {
+  const parts: IcuMessage['parts'] = [];
+  let literal = '';
+  let i = start;
+
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === "'" && src[i + 1] === "'") {
+      literal += "''";
+      i += 2;
+    } else if (ch === "'" && /[{}#|]/.test(src[i + 1] || '')) {
+      const end = readUntil(src, i + 1, "'");
+      literal += src.slice(i, end + 1);
+      i = end + 1;
+    } else if (ch === '{') {
+      const { part, end } = parseArgument(src, i);
+      if (typeof part === 'string') {
+        literal += part;
+      } else {
+        if (literal) parts.push(literal);
+        parts.push(part);
+        literal = '';
+      }
+      i = end;
+    } else if (ch === '}') {
+      if (!nested) throw new IcuSyntaxError('Unexpected closing brace');
+      if (literal) parts.push(literal);
+      return { message: { parts }, end: i };
+    } else {
+      literal += ch;
+      i++;
+    }
+  }
+
+  if (nested) throw new IcuSyntaxError('Unterminated message');
+  if (literal) parts.push(literal);
+  return { message: { parts }, end: i };
+};
+
+// Returns null for plain strings (no plural/select) and for text that is not valid ICU
+export const parseIcuMessage = (text: string): IcuMessage | null => {
+  try {
+    const { message } = parseMessage(text, 0, false);
+    return message.parts.some(part => typeof part !== 'string') ? message : null;
+  } catch (err) {
+    if (err instanceof IcuSyntaxError) return null;
+    throw err;
+  }
+};
+
+// Every message of the tree in depth-first order; this order defines leaf indices
+const collectMessages = (message: IcuMessage, plural: boolean, out: { message: IcuMessage; plural: boolean }[] = []) => {
+  out.push({ message, plural });
+  message.parts.forEach(part => {
+    if (typeof part !== 'string') part.options.forEach(option => collectMessages(option.message, part.plural, out));
+  });
+  return out;
+};
+
+// Inside plural sub-messages "#" stands for the number and must be kept
+const PLURAL_PLACEHOLDER_PATTERN = new RegExp(`${PLACEHOLDER_PATTERN.source}|#`, 'g');
+
+// Protected text for every sub-message. Nested plural/select arguments become a
+// single placeholder in their parent so the sentence around them stays whole.
+export const icuLeaves = (message: IcuMessage): ProtectedText[] =>
+  collectMessages(message, false).map(({ message: leaf, plural }) => {
+    const protector = createProtector();
+    const text = leaf.parts
+      .map(part => (typeof part === 'string' ? protector.text(part, plural ? PLURAL_PLACEHOLDER_PATTERN : PLACEHOLDER_PATTERN) : protector.token('')))
+      .join('');
+    return { text, tokens: protector.tokens };
+  });
+
+// Rebuilds the message from translated leaves (in icuLeaves order). Returns null
+// if any leaf lost or repeated a placeholder.
+export const renderIcuMessage = (message: IcuMessage, translatedLeaves: string[]): string | null => {
+  const leaves = icuLeaves(message);
+  let next = 0;
+
+  const render = (node: IcuMessage): string | null => {
+    const index = next++;
+    const nested: string[] = [];
+    for (const part of node.parts) {
+      if (typeof part === 'string') continue;
+      const options: string[] = [];
+      for (const option of part.options) {
+        const rendered = render(option.message);
+        if (rendered === null) return null;
+        options.push(`${option.prefix}${rendered}}`);
+      }
+      nested.push(part.head + options.join('') + part.tail);
+    }
+
+    // Empty tokens mark nested arguments; fill them in order
+    let nestedIndex = 0;
+    const tokens = leaves[index].tokens.map(token => (token === '' ? nested[nestedIndex++] : token));
+    const restored = restorePlaceholders(translatedLeaves[index], tokens);
+    return restored.missing.length || restored.duplicated.length ? null : restored.text;
+  };
+
+  return render(message);
+};
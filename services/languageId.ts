@@ -0,0 +1,102 @@
+import { LanguageDetection } from "../types";
+import { APP_CONFIG } from "../constants";
+import { LANGUAGE_COMMON_WORDS, LANGUAGE_SAMPLES } from "./languageProfiles";
+import { getBaseLanguage } from "./languages";
+
+// On-device language identification: a naive Bayes classifier over character
+// 1-3 grams, trained on the reference texts in languageProfiles when first used.
+// It runs on every keystroke, so only the start of long texts is looked at.
+
+const MAX_ORDER = 3;
+const MAX_INPUT_CHARS = 1000;
+// Add-one smoothing spreads unseen n-grams over roughly this many possible ones
+const SMOOTHING_VOCABULARY = 5000;
+// Naive Bayes is overconfident on correlated n-grams; log-likelihoods are
+// scaled down by sqrt(n-gram count) so short inputs give modest scores
+const SCORE_SHARPNESS = 3;
+
+interface Profile {
+  counts: Map<string, number>;
+  totals: number[];
+}
+
+// Words padded with '_' so prefixes and suffixes count as n-grams of their own.
+// Marks are kept: Devanagari and Thai vowel signs are combining characters.
+const ngrams = (text: string) => {
+  const grams: string[] = [];
+  const words = text.normalize('NFC').toLowerCase().match(/[\p{L}\p{M}]+/gu) || [];
+  words.forEach(word => {
+    const chars = Array.from(`_${word}_`);
+    for (let n = 1; n <= MAX_ORDER; n++) {
+      for (let i = 0; i + n <= chars.length; i++) {
+        const gram = chars.slice(i, i + n).join('');
+        if (gram !== '_') grams.push(gram);
+      }
+    }
+  });
+  return grams;
+};
+
+let profiles: Record<string, Profile> | null = null;
+
+const getProfiles = () => {
+  if (profiles) return profiles;
+  profiles = {};
+  for (const [language, sample] of Object.entries(LANGUAGE_SAMPLES)) {
+    const counts = new Map<string, number>();
+    const totals = new Array(MAX_ORDER + 1).fill(0);
+    ngrams(`${sample} ${LANGUAGE_COMMON_WORDS[language] || ''}`).forEach(gram => {
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+      totals[Array.from(gram).length]++;
+    });
+    profiles[language] = { counts, totals };
+  }
+  return profiles;
+};
+
+const countLetters = (text: string) => (text.match(/\p{L}/gu) || []).length;
+
+// Ranked candidates with scores that add up to 1, best first. Empty when the
+// text has too few letters to say anything.
+export const identifyLanguage = (text: string, limit: number = 3): LanguageDetection[] => {
+  const input = text.slice(0, MAX_INPUT_CHARS);
+  if (countLetters(input) < APP_CONFIG.LANGUAGE_ID_MIN_LETTERS) return [];
+
+  const grams = ngrams(input);
+  const scale = SCORE_SHARPNESS / Math.sqrt(grams.length);
+  const scores = Object.entries(getProfiles()).map(([language, profile]) => {
+    let logLikelihood = 0;
+    grams.forEach(gram => {
+      const count = profile.counts.get(gram) || 0;
+      logLikelihood += Math.log((count + 1) / (profile.totals[Array.from(gram).length] + SMOOTHING_VOCABULARY));
+    });
+    return { language, score: logLikelihood * scale };
+  });
+
+  // Softmax, shifted by the best score to stay within floating point range
+  const best = Math.max(...scores.map(s => s.score));
+  const weights = scores.map(s => ({ language: s.language, weight: Math.exp(s.score - best) }));
+  const sum = weights.reduce((total, w) => total + w.weight, 0);
+  return weights
+    .map(w => ({ language: w.language, confidence: w.weight / sum }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+};
+
+// The language to offer in "Did you mean to translate from X?", if any: the text
+// must be long enough to be sure, and clearly not in the selected language. Profiles
+// exist per language, so a selected regional variant counts as a match.
+export const suggestSourceLanguage = (text: string, candidates: LanguageDetection[], sourceLang: string) => {
+  const [top] = candidates;
+  if (!top || sourceLang === 'auto' || top.language === getBaseLanguage(sourceLang)) return null;
+  if (countLetters(text) < APP_CONFIG.LANGUAGE_ID_SUGGEST_MIN_LETTERS) return null;
+  return top.confidence >= APP_CONFIG.LANGUAGE_ID_SUGGEST_CONFIDENCE ? top.language : null;
+};
+
+// The language finished work is filed under (e.g. in the translation memory): the
+// selected one, or with detection on, the on-device guess when it is clear. '' otherwise.
+export const resolveSourceLanguage = (sourceLang: string, text: string) => {
+  if (sourceLang !== 'auto') return sourceLang;
+  const [top] = identifyLanguage(text, 1);
+  return top && top.confidence >= APP_CONFIG.LANGUAGE_ID_SUGGEST_CONFIDENCE ? top.language : '';
+};
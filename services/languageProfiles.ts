@@ -0,0 +1,46 @@
+// Reference text the on-device language identifier builds its character n-gram
+// profiles from. Each sample says roughly the same everyday things, so the
+// profiles differ by language rather than by topic. Keys are SUPPORTED_LANGUAGES codes.
+
+export const LANGUAGE_SAMPLES: Record<string, string> = {
+  en: `The short answer is that we do not know yet, but we will find out soon. It is one of the things that people often ask when they are thinking about what to do with their time and money. There was a small house near the river, and the children would play there every day after school. I think you should have a look at this before you make a decision, because it could change everything. What would you like to eat tonight? They said that they were going to come back with the others when the weather is better. This is the first time that I have seen something like that in my life. Hello, how are you? Thank you very much for your help.`,
+  es: `La respuesta corta es que todavía no lo sabemos, pero lo vamos a descubrir pronto. Es una de las cosas que la gente pregunta a menudo cuando piensa en qué hacer con su tiempo y su dinero. Había una casa pequeña cerca del río, y los niños jugaban allí todos los días después de la escuela. Creo que deberías mirar esto antes de tomar una decisión, porque podría cambiarlo todo. ¿Qué te gustaría comer esta noche? Dijeron que iban a volver con los demás cuando el tiempo sea mejor. Es la primera vez que veo algo así en mi vida. Hola, ¿cómo estás? Muchas gracias por tu ayuda.`,
+  fr: `La réponse courte est que nous ne le savons pas encore, mais nous allons le découvrir bientôt. C'est une des choses que les gens demandent souvent quand ils pensent à ce qu'ils vont faire de leur temps et de leur argent. Il y avait une petite maison près de la rivière, et les enfants y jouaient tous les jours après l'école. Je pense que tu devrais regarder ceci avant de prendre une décision, parce que cela pourrait tout changer. Qu'est-ce que tu voudrais manger ce soir ? Ils ont dit qu'ils allaient revenir avec les autres quand il fera plus beau. C'est la première fois que je vois quelque chose comme ça dans ma vie. Bonjour, comment allez-vous ? Merci beaucoup pour votre aide.`,
+  de: `Die kurze Antwort ist, dass wir es noch nicht wissen, aber wir werden es bald herausfinden. Das ist eine der Fragen, die Menschen oft stellen, wenn sie darüber nachdenken, was sie mit ihrer Zeit und ihrem Geld machen sollen. Es gab ein kleines Haus in der Nähe des Flusses, und die Kinder spielten dort jeden Tag nach der Schule. Ich glaube, du solltest dir das ansehen, bevor du eine Entscheidung triffst, weil es alles ändern könnte. Was möchtest du heute Abend essen? Sie sagten, dass sie mit den anderen zurückkommen würden, wenn das Wetter besser ist. Das ist das erste Mal, dass ich so etwas in meinem Leben gesehen habe. Guten Tag, wie geht es Ihnen? Vielen Dank für Ihre Hilfe.`,
+  it: `La risposta breve è che non lo sappiamo ancora, ma lo scopriremo presto. È una delle cose che la gente chiede spesso quando pensa a cosa fare con il proprio tempo e i propri soldi. C'era una piccola casa vicino al fiume, e i bambini ci giocavano ogni giorno dopo la scuola. Penso che dovresti guardare questo prima di prendere una decisione, perché potrebbe cambiare tutto. Che cosa vorresti mangiare stasera? Hanno detto che sarebbero tornati con gli altri quando il tempo sarà migliore. È la prima volta che vedo una cosa del genere nella mia vita. Ciao, come stai? Grazie mille per il tuo aiuto.`,
+  pt: `A resposta curta é que ainda não sabemos, mas vamos descobrir em breve. É uma das coisas que as pessoas perguntam muitas vezes quando pensam no que fazer com o seu tempo e o seu dinheiro. Havia uma casa pequena perto do rio, e as crianças brincavam lá todos os dias depois da escola. Acho que você deveria olhar isto antes de tomar uma decisão, porque isso poderia mudar tudo. O que você gostaria de comer hoje à noite? Disseram que iam voltar com os outros quando o tempo estiver melhor. É a primeira vez que vejo uma coisa assim na minha vida. Olá, tudo bem? Muito obrigado pela sua ajuda.`,
+  nl: `Het korte antwoord is dat we het nog niet weten, maar we zullen het binnenkort ontdekken. Het is een van de dingen die mensen vaak vragen wanneer ze nadenken over wat ze met hun tijd en hun geld moeten doen. Er was een klein huis bij de rivier, en de kinderen speelden daar elke dag na school. Ik denk dat je dit moet bekijken voordat je een beslissing neemt, omdat het alles zou kunnen veranderen. Wat wil je vanavond eten? Ze zeiden dat ze met de anderen terug zouden komen als het weer beter is. Dit is de eerste keer dat ik zoiets in mijn leven heb gezien. Hallo, hoe gaat het met je? Heel erg bedankt voor je hulp.`,
+  ru: `Короткий ответ заключается в том, что мы пока не знаем, но скоро узнаем. Это один из вопросов, которые люди часто задают, когда думают о том, что делать со своим временем и деньгами. Возле реки был маленький дом, и дети играли там каждый день после школы. Я думаю, тебе стоит посмотреть на это, прежде чем принимать решение, потому что это может всё изменить. Что ты хочешь съесть сегодня вечером? Они сказали, что вернутся вместе с другими, когда погода станет лучше. Я впервые в жизни вижу что-то подобное. Привет, как дела? Большое спасибо за помощь.`,
+  zh: `简单的回答是我们还不知道，但是我们很快就会知道。这是人们在考虑如何使用自己的时间和金钱时经常问的问题之一。河边有一座小房子，孩子们每天放学后都在那里玩。我觉得你在做决定之前应该看看这个，因为它可能会改变一切。你今天晚上想吃什么？他们说天气好一点的时候会和其他人一起回来。这是我这辈子第一次看到这样的东西。你好，你最近怎么样？非常感谢你的帮助。`,
+  ja: `短く答えると、まだわかりませんが、すぐにわかるでしょう。これは、人々が自分の時間とお金で何をするかを考えるときによく聞くことの一つです。川の近くに小さな家があって、子供たちは毎日学校の後にそこで遊んでいました。決める前にこれを見たほうがいいと思います。すべてが変わるかもしれないからです。今夜は何を食べたいですか。天気が良くなったら、ほかの人たちと一緒に戻ってくると言っていました。こんなものを見たのは人生で初めてです。こんにちは、お元気ですか。手伝ってくれて本当にありがとうございます。`,
+  ko: `짧게 대답하자면 우리는 아직 모르지만 곧 알게 될 것입니다. 이것은 사람들이 자신의 시간과 돈으로 무엇을 할지 생각할 때 자주 묻는 것 중 하나입니다. 강 근처에 작은 집이 있었고, 아이들은 매일 학교가 끝나면 그곳에서 놀았습니다. 결정을 내리기 전에 이것을 보는 것이 좋다고 생각합니다. 모든 것을 바꿀 수 있기 때문입니다. 오늘 저녁에 무엇을 먹고 싶어요? 그들은 날씨가 좋아지면 다른 사람들과 함께 돌아오겠다고 말했습니다. 제 인생에서 이런 것을 보는 것은 처음입니다. 안녕하세요, 잘 지내세요? 도와주셔서 정말 감사합니다.`,
+  ar: `الجواب القصير هو أننا لا نعرف بعد، لكننا سنكتشف ذلك قريبا. هذا من الأشياء التي يسأل عنها الناس كثيرا عندما يفكرون فيما يفعلونه بوقتهم وأموالهم. كان هناك بيت صغير بالقرب من النهر، وكان الأطفال يلعبون هناك كل يوم بعد المدرسة. أعتقد أنه يجب عليك أن تنظر إلى هذا قبل أن تتخذ قرارا، لأنه قد يغير كل شيء. ماذا تريد أن تأكل هذا المساء؟ قالوا إنهم سيعودون مع الآخرين عندما يصبح الطقس أفضل. هذه أول مرة أرى فيها شيئا مثل هذا في حياتي. مرحبا، كيف حالك؟ شكرا جزيلا على مساعدتك.`,
+  tr: `Kısa cevap şu ki henüz bilmiyoruz, ama yakında öğreneceğiz. Bu, insanların zamanları ve paraları ile ne yapacaklarını düşünürken sık sık sordukları şeylerden biridir. Nehrin yakınında küçük bir ev vardı ve çocuklar her gün okuldan sonra orada oynardı. Bir karar vermeden önce buna bakman gerektiğini düşünüyorum, çünkü her şeyi değiştirebilir. Bu akşam ne yemek istersin? Hava daha iyi olduğunda diğerleriyle birlikte geri geleceklerini söylediler. Hayatımda böyle bir şeyi ilk defa görüyorum. Merhaba, nasılsın? Yardımın için çok teşekkür ederim.`,
+  hi: `छोटा जवाब यह है कि हम अभी नहीं जानते, लेकिन हम जल्द ही पता लगा लेंगे। यह उन बातों में से एक है जो लोग अक्सर पूछते हैं जब वे सोचते हैं कि अपने समय और पैसे के साथ क्या करें। नदी के पास एक छोटा सा घर था, और बच्चे हर दिन स्कूल के बाद वहाँ खेलते थे। मुझे लगता है कि तुम्हें फैसला करने से पहले इसे देखना चाहिए, क्योंकि इससे सब कुछ बदल सकता है। आज रात तुम क्या खाना चाहोगे? उन्होंने कहा कि जब मौसम बेहतर होगा तो वे दूसरों के साथ वापस आएंगे। मैंने अपनी ज़िंदगी में पहली बार ऐसा कुछ देखा है। नमस्ते, आप कैसे हैं? आपकी मदद के लिए बहुत धन्यवाद।`,
+  pl: `Krótka odpowiedź jest taka, że jeszcze tego nie wiemy, ale wkrótce się dowiemy. To jedna z rzeczy, o które ludzie często pytają, kiedy myślą o tym, co zrobić ze swoim czasem i pieniędzmi. W pobliżu rzeki był mały dom, a dzieci bawiły się tam codziennie po szkole. Myślę, że powinieneś na to spojrzeć, zanim podejmiesz decyzję, ponieważ to może wszystko zmienić. Co chciałbyś dziś zjeść na kolację? Powiedzieli, że wrócą z innymi, kiedy pogoda będzie lepsza. To pierwszy raz, kiedy widzę coś takiego w moim życiu. Dzień dobry, jak się masz? Dziękuję bardzo za pomoc.`,
+  vi: `Câu trả lời ngắn gọn là chúng tôi vẫn chưa biết, nhưng chúng tôi sẽ sớm tìm ra. Đây là một trong những điều mà mọi người thường hỏi khi họ nghĩ về việc nên làm gì với thời gian và tiền bạc của mình. Có một ngôi nhà nhỏ gần con sông, và những đứa trẻ chơi ở đó mỗi ngày sau giờ học. Tôi nghĩ bạn nên xem điều này trước khi đưa ra quyết định, vì nó có thể thay đổi mọi thứ. Tối nay bạn muốn ăn gì? Họ nói rằng họ sẽ quay lại cùng những người khác khi thời tiết tốt hơn. Đây là lần đầu tiên tôi thấy điều như vậy trong đời. Xin chào, bạn có khỏe không? Cảm ơn bạn rất nhiều vì đã giúp đỡ.`,
+  th: `คำตอบสั้นๆ คือเรายังไม่รู้ แต่เราจะรู้เร็วๆ นี้ นี่เป็นเรื่องหนึ่งที่คนมักถามเมื่อพวกเขาคิดว่าจะทำอะไรกับเวลาและเงินของตัวเอง มีบ้านหลังเล็กๆ อยู่ใกล้แม่น้ำ และเด็กๆ เล่นที่นั่นทุกวันหลังเลิกเรียน ฉันคิดว่าคุณควรดูสิ่งนี้ก่อนตัดสินใจ เพราะมันอาจเปลี่ยนทุกอย่าง คืนนี้คุณอยากกินอะไร พวกเขาบอกว่าจะกลับมาพร้อมกับคนอื่นๆ เมื่ออากาศดีขึ้น นี่เป็นครั้งแรกในชีวิตที่ฉันเห็นอะไรแบบนี้ สวัสดีครับ สบายดีไหม ขอบคุณมากสำหรับความช่วยเหลือ`,
+  sv: `Det korta svaret är att vi inte vet ännu, men vi kommer snart att ta reda på det. Det är en av de saker som folk ofta frågar när de funderar på vad de ska göra med sin tid och sina pengar. Det fanns ett litet hus nära floden, och barnen lekte där varje dag efter skolan. Jag tycker att du borde titta på det här innan du fattar ett beslut, eftersom det kan förändra allt. Vad vill du äta i kväll? De sa att de skulle komma tillbaka med de andra när vädret blir bättre. Det är första gången jag ser något sådant i mitt liv. Hej, hur mår du? Tack så mycket för din hjälp.`,
+  da: `Det korte svar er, at vi ikke ved det endnu, men vi finder snart ud af det. Det er en af de ting, som folk ofte spørger om, når de tænker over, hvad de skal gøre med deres tid og deres penge. Der var et lille hus tæt på floden, og børnene legede der hver dag efter skole. Jeg synes, at du skulle se på det her, før du træffer en beslutning, fordi det kan ændre alting. Hvad vil du gerne spise i aften? De sagde, at de ville komme tilbage sammen med de andre, når vejret bliver bedre. Det er første gang, jeg ser noget lignende i mit liv. Hej, hvordan har du det? Mange tak for din hjælp.`,
+  no: `Det korte svaret er at vi ikke vet det ennå, men vi finner det snart ut. Det er en av de tingene som folk ofte spør om når de tenker på hva de skal gjøre med tiden og pengene sine. Det var et lite hus i nærheten av elva, og barna lekte der hver dag etter skolen. Jeg synes du burde se på dette før du tar en avgjørelse, fordi det kan forandre alt. Hva har du lyst til å spise i kveld? De sa at de skulle komme tilbake sammen med de andre når været blir bedre. Dette er første gang jeg ser noe sånt i mitt liv. Hei, hvordan har du det? Tusen takk for hjelpen.`,
+  fi: `Lyhyt vastaus on, että emme vielä tiedä, mutta saamme sen pian selville. Se on yksi niistä asioista, joita ihmiset kysyvät usein, kun he miettivät, mitä tehdä ajallaan ja rahoillaan. Joen lähellä oli pieni talo, ja lapset leikkivät siellä joka päivä koulun jälkeen. Minusta sinun pitäisi katsoa tätä ennen kuin teet päätöksen, koska se voi muuttaa kaiken. Mitä haluaisit syödä tänä iltana? He sanoivat, että he tulevat takaisin muiden kanssa, kun sää on parempi. Tämä on ensimmäinen kerta, kun näen jotain tällaista elämässäni. Hei, mitä kuuluu? Kiitos paljon avustasi.`
+};
+
+// Short inputs are mostly function words, which a paragraph only covers a few
+// times. Languages sharing the Latin script also learn from their most common words.
+export const LANGUAGE_COMMON_WORDS: Record<string, string> = {
+  en: `the be to of and a in that have it for not on with he as you do at this but his by from they we say her she or an will my one all would there their what so up out if about who get which go me when make can like time no just him know take people into year your good some could them see other than then now look only come its over think also back after use two how our work first well way even new want because any these give day most us is are was were has had been very here where why going thing program programming computer information station nation question problem government development working looking morning nothing during really probably actually usually important different possible another something everything without through between against around before under again never always often still while together world school family money water right place small large found great little should those write where every thought`,
+  es: `de la que el en y a los se del las un por con no una su para es al lo como más pero sus le ya o este sí porque esta entre cuando muy sin sobre también me hasta hay donde quien desde todo nos durante todos uno les ni contra otros ese eso ante ellos e esto mí antes algunos qué unos yo otro otras otra él tanto esa estos mucho quienes nada muchos cual poco ella estar estas algunas algo nosotros mi mis tú te ti tu tus ellas usted bueno hacer tiene puede años ahora programa información estación nación pregunta problema gobierno desarrollo trabajando mañana nada realmente probablemente normalmente importante diferente posible otro siempre nunca todavía mientras juntos mundo familia dinero agua lugar pequeño grande ciudad país gente hombre mujer niño trabajo después entonces aquí allí mejor tener hacer decir ir ver dar saber querer llegar pasar deber poner parecer quedar hablar llevar dejar seguir encontrar llamar`,
+  fr: `le de un être et à il avoir ne je son que se qui ce dans en du elle au pour pas par sur faire plus dire me on mon lui nous comme mais pouvoir avec tout y aller voir bien où sans tu ou leur si deux moi vouloir te venir quand grand celui notre devoir là jour prendre même votre rien petit encore aussi quelque dont trouver donner temps ça peu falloir sous parler alors sa ses les des est sont était très cette avez suis programme information gare nation question problème gouvernement développement travail matin rien vraiment probablement normalement important différent possible autre toujours jamais pendant ensemble monde famille argent eau endroit petite grande ville pays gens homme femme enfant après ensuite ici maintenant mieux aujourd'hui chez beaucoup pourquoi comment peut fait cela ceux celle quelqu'un chose leurs aux été`,
+  de: `der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass sie nach wird bei einer um am sind noch wie einem über einen so zum war haben nur oder aber vor zur bis mehr durch man sein wurde sei ich du wir ihr mich mir dir uns euch kann können schon wenn was wer wo hier jetzt sehr immer gut heute Programm Information Bahnhof Nation Frage Problem Regierung Entwicklung Arbeit Morgen nichts wirklich wahrscheinlich normalerweise wichtig verschieden möglich anderer andere immer niemals während zusammen Welt Familie Geld Wasser Platz klein groß Stadt Land Leute Mann Frau Kind danach dann besser gehen sehen geben wissen wollen kommen müssen sollen sagen machen stehen finden bleiben liegen heißen denken nehmen tun dürfen glauben halten nennen zeigen führen sprechen bringen leben fahren meinen fragen kennen gelten stellen spielen arbeiten brauchen folgen lernen bestehen verstehen`,
+  it: `di e il la che è per un in a non sono una le si con da del della i mi ma gli ho al lo come ci se io questo ha cosa anche mio tu bene qui sei molto più lei lui noi voi loro dei alla nel ne era fatto perché tutto solo ancora sempre quando dove chi quello questa fare essere avere grazie oggi niente tutti casa nella sul programma informazione stazione nazione domanda problema governo sviluppo lavoro mattina davvero probabilmente normalmente importante diverso possibile altro mai mentre insieme mondo famiglia soldi acqua posto piccolo grande città paese gente uomo donna bambino dopo allora adesso meglio andare vedere dare sapere volere venire dovere potere dire parlare trovare sentire lasciare prendere guardare chiamare pensare credere capire`,
+  pt: `de a o que e do da em um para é com não uma os no se na por mais as dos como mas foi ao ele das tem à seu sua ou ser quando muito há nos já está eu também só pelo pela até isso ela entre era depois sem mesmo aos ter seus quem nas me esse eles estão você tinha foram essa num nem suas meu às minha têm numa pelos elas havia seja qual será nós tenho lhe deles essas esses pelas este fosse dele tu te vocês meus minhas teu tua programa informação estação nação pergunta problema governo desenvolvimento trabalho manhã nada realmente provavelmente normalmente importante diferente possível outro sempre nunca ainda enquanto juntos mundo família dinheiro água lugar pequeno grande cidade país gente homem mulher criança então aqui agora melhor fazer dizer ir ver dar saber querer chegar passar dever pôr parecer ficar falar levar deixar seguir encontrar chamar não são mãe irmão`,
+  nl: `de van een het en in is dat op te zijn voor met die niet aan er om ook als bij of door dan maar nog wel naar uit worden tot wordt je ze over zou kan hebben al zich heeft hij meer geen was wat werd nu we deze dit wij jij ik mij mijn jouw haar hun onze hier daar waar hoe waarom omdat veel goed alleen altijd programma informatie station natie vraag probleem regering ontwikkeling werk ochtend niets echt waarschijnlijk normaal belangrijk verschillend mogelijk ander nooit terwijl samen wereld familie geld water plaats klein groot stad land mensen man vrouw kind daarna toen beter gaan zien geven weten willen komen moeten zeggen maken staan vinden blijven liggen heten denken nemen doen mogen geloven houden noemen laten spreken brengen leven rijden kijken`,
+  tr: `bir ve bu da de için ne ile çok daha gibi o ben sen biz siz onlar var yok ama değil mi mı mu mü olarak kadar sonra en her şey ya ki iyi güzel nasıl neden nerede zaman gün yıl şimdi burada orada evet hayır lütfen teşekkürler benim senin onun bizim sizin kendi olan oldu olur diye göre bütün hiç ancak ise artık büyük küçük yeni program bilgi istasyon ulus soru sorun hükümet gelişme çalışma sabah hiçbir gerçekten muhtemelen genellikle önemli farklı mümkün başka asla hep birlikte dünya aile para su yer şehir ülke insan adam kadın çocuk sonra önce şimdi daha iyi gitmek görmek vermek bilmek istemek gelmek söylemek yapmak bulmak kalmak almak düşünmek anlamak konuşmak yaşamak çalışmak oturmak`,
+  pl: `i w nie na się z do to że jest jak a o co ale po tak za od jego już tylko mnie jej przez dla może ten mi ich czy być był była było są będzie jestem jesteś my wy oni one ja ty on ona ono tego tej tym także bardzo gdzie kiedy dlaczego teraz tutaj tam dobrze dzień rok czas ludzie życie który która które również jeszcze więc bo gdy przy pod nad między program informacja stacja naród pytanie problem rząd rozwój praca rano nic naprawdę prawdopodobnie zwykle ważny różny możliwy inny nigdy zawsze razem świat rodzina pieniądze woda miejsce mały duży miasto kraj człowiek mężczyzna kobieta dziecko potem wtedy lepiej iść widzieć dać wiedzieć chcieć przyjść musieć powiedzieć robić zrobić znaleźć zostać brać myśleć rozumieć mówić żyć pracować`,
+  vi: `và của là có không được cho này những một các người trong với đã để khi đến như thì từ cũng tôi bạn anh chị em họ chúng ta mình nhiều lại ra làm đi sẽ nhưng vào rất nào gì đó đây ở nếu vì hay còn mới năm ngày thời gian nhà việc biết muốn nói thấy chương trình thông tin nhà ga quốc gia câu hỏi vấn đề chính phủ phát triển công việc buổi sáng thật sự có lẽ thường quan trọng khác nhau có thể luôn luôn cùng nhau thế giới gia đình tiền nước nơi nhỏ lớn thành phố đất nước con người đàn ông phụ nữ trẻ em sau đó bây giờ tốt hơn đi xem cho biết muốn đến nói làm tìm ở lấy nghĩ hiểu sống`,
+  sv: `och i att det som en på är av för med till den har de inte om ett han men var jag sig från vi så kan man när år säger hon under också efter eller nu sin där vid mot ska skulle kommer ut får finns vara hade alla andra mycket än här då sedan över bara in blir upp även vad få två vill ha många hur mer går detta nya hans utan sina något program information station nation fråga problem regering utveckling arbete morgon ingenting verkligen förmodligen vanligtvis viktig olika möjlig annan aldrig alltid medan tillsammans värld familj pengar vatten plats liten stor stad land folk människor man kvinna barn sedan därefter bättre gå se ge veta vilja komma måste säga göra stå hitta stanna ligga heta tänka ta tro hålla kalla visa leva köra fråga förstå arbeta`,
+  da: `og i at det en den til er som på de med han af for ikke der var mig sig men et har om vi min havde ham hun nu over da fra du ud sin dem os op man hans hvor eller hvad skal selv her alle vil blev kunne ind når være dog noget ville jo deres efter ned skulle denne end dette mit også under have dig anden hende mine alt meget sit sine mod disse hvis din nogle hos blive mange bliver hendes været jer sådan program information station nation spørgsmål problem regering udvikling arbejde morgen intet virkelig sandsynligvis normalt vigtig forskellig mulig anden aldrig altid mens sammen verden familie penge vand sted lille stor by land folk mennesker mand kvinde barn bagefter derefter bedre gå se give vide ville komme måtte sige gøre stå finde blive ligge hedde tænke tage tro holde kalde vise leve køre spørge forstå arbejde`,
+  no: `og i det er en til på som at å av for med de den har ikke han var jeg om et men seg fra vi så kan man da sin hun når skal etter nå eller også meg bare hadde dette ut alle andre mye enn her sa dem oss opp være blir ble kunne mot hvor hva hvordan noe ingen min mitt mine din ditt dine deg henne hennes sitt sine vært bli veldig nei ja takk program informasjon stasjon nasjon spørsmål problem regjering utvikling arbeid morgen ingenting virkelig sannsynligvis vanligvis viktig forskjellig mulig annen aldri alltid mens sammen verden familie penger vann sted liten stor by land folk mennesker mann kvinne barn etterpå deretter bedre gå se gi vite ville komme måtte si gjøre stå finne bli ligge hete tenke ta tro holde kalle vise leve kjøre spørre forstå jobbe`,
+  fi: `ja on ei se että hän oli ole olla mutta kun niin kuin joka myös sen hänen ovat minä sinä me te he tämä tuo mitä mikä missä miksi kuka koska vain jo nyt sitten vielä aina kaikki paljon hyvä päivä vuosi aika ihmiset elämä talo kanssa ilman jälkeen ennen yli alla sisällä ulkona kiitos anteeksi kyllä olen olet olemme olette ohjelma tieto asema kansa kysymys ongelma hallitus kehitys työ aamu ei mitään todella luultavasti yleensä tärkeä erilainen mahdollinen toinen koskaan aina samalla yhdessä maailma perhe raha vesi paikka pieni suuri kaupunki maa ihminen mies nainen lapsi sitten myöhemmin parempi mennä nähdä antaa tietää haluta tulla täytyä sanoa tehdä löytää jäädä ottaa ajatella ymmärtää puhua elää asua`
+};
@@ -0,0 +1,90 @@
+import { Language, LanguagePrefs, TextDirection } from "../types";
+import { APP_CONFIG, SUPPORTED_LANGUAGES } from "../constants";
+
+// Lookups over SUPPORTED_LANGUAGES plus the picker's pinned and recent languages.
+// Codes are BCP-47 tags; variants such as pt-BR fall back to their base language
+// wherever data only exists per language.
+
+const PREFS_KEY = 'lingoai_language_prefs';
+
+// Codes and names that don't follow from SUPPORTED_LANGUAGES directly
+const ALIASES: Record<string, string> = {
+  nb: 'no',
+  nn: 'no',
+  'zh-cn': 'zh-Hans',
+  'zh-sg': 'zh-Hans',
+  'zh-tw': 'zh-Hant',
+  'zh-hk': 'zh-Hant',
+  'zh-mo': 'zh-Hant',
+  mandarin: 'zh',
+  cantonese: 'zh-Hant'
+};
+
+const sameText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' }) === 0;
+
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const getLanguage = (code: string): Language | undefined =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code) ||
+  SUPPORTED_LANGUAGES.find(l => l.code.toLowerCase() === code.toLowerCase());
+
+export const getLanguageName = (code: string) => getLanguage(code)?.name || code;
+
+// Registry spelling of a tag read from a file ('pt-br' becomes 'pt-BR'); unknown tags are kept
+export const canonicalLanguageTag = (tag: string) => getLanguage(tag)?.code || tag;
+
+// 'pt' for 'pt-BR'; a general language is its own base
+export const getBaseLanguage = (code: string) => getLanguage(code)?.base || code.split(/[-_]/)[0].toLowerCase();
+
+// 'auto' until the language is known, which lets the browser decide from the text
+export const getTextDirection = (code: string): TextDirection | 'auto' =>
+  code === 'auto' ? 'auto' : getLanguage(code)?.dir || 'auto';
+
+// Maps a language given as a code, BCP-47 tag or name ("es", "es-mx", "Spanish",
+// "Español") to its code in SUPPORTED_LANGUAGES, or '' when it isn't supported
+export const toSupportedLanguage = (value: string | undefined | null): string => {
+  const input = value?.trim();
+  if (!input) return '';
+  const languages = SUPPORTED_LANGUAGES.filter(l => l.code !== 'auto');
+  const tag = input.toLowerCase().replace(/_/g, '-');
+  const primary = tag.split('-')[0];
+
+  const match =
+    languages.find(l => l.code.toLowerCase() === tag) ||
+    languages.find(l => l.code === ALIASES[tag]) ||
+    languages.find(l => l.code === (ALIASES[primary] || primary)) ||
+    languages.find(l => sameText(l.name, input) || sameText(l.native, input));
+  return match?.code || '';
+};
+
+// Case- and accent-insensitive match on name, native name or code, in registry order
+export const searchLanguages = (languages: Language[], query: string) => {
+  const needle = fold(query.trim());
+  if (!needle) return languages;
+  return languages.filter(l =>
+    fold(l.name).includes(needle) || fold(l.native).includes(needle) || l.code.toLowerCase().startsWith(needle)
+  );
+};
+
+export const loadLanguagePrefs = (): LanguagePrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFS_KEY) || '{}');
+    return { pinned: stored.pinned || [], recent: stored.recent || [] };
+  } catch {
+    return { pinned: [], recent: [] };
+  }
+};
+
+export const saveLanguagePrefs = (prefs: LanguagePrefs) => {
+  localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+};
+
+export const addRecentLanguage = (prefs: LanguagePrefs, code: string): LanguagePrefs => {
+  if (code === 'auto') return prefs;
+  return { ...prefs, recent: [code, ...prefs.recent.filter(c => c !== code)].slice(0, APP_CONFIG.RECENT_LANGUAGES_MAX) };
+};
+
+export const togglePinnedLanguage = (prefs: LanguagePrefs, code: string): LanguagePrefs => ({
+  ...prefs,
+  pinned: prefs.pinned.includes(code) ? prefs.pinned.filter(c => c !== code) : [...prefs.pinned, code]
+});
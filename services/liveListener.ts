@@ -0,0 +1,110 @@
+import { TranscriptionSession, TranslationProvider } from "../types";
+import { startAudioCapture } from "./audioCapture";
+import { DEFAULT_VAD_OPTIONS } from "./audioProcessing";
+
+// Conversation and dictation modes listen continuously through the provider's live
+// transcription and report each finished utterance. What happens with it is left to the caller.
+
+export interface LiveListener {
+  // Stops sending audio, e.g. while a translation is played through the speakers
+  setMuted(muted: boolean): void;
+  stop(): Promise<void>;
+}
+
+export interface Utterance {
+  text: string;
+  // Wall-clock times (ms) of the speech the text was transcribed from
+  startedAt: number;
+  endedAt: number;
+}
+
+export const startLiveListener = async ({
+  provider,
+  deviceId,
+  onDeviceUnavailable,
+  onLevel,
+  onPartial,
+  onUtterance,
+  onError,
+  onClose
+}: {
+  provider: TranslationProvider;
+  deviceId?: string;
+  onDeviceUnavailable?: () => void;
+  onLevel?: (level: number) => void;
+  onPartial: (text: string) => void;
+  onUtterance: (utterance: Utterance) => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+}): Promise<LiveListener> => {
+  let live: TranscriptionSession | null = null;
+  let transcript = '';
+  let stopped = false;
+  // Voice activity timing of the utterance being transcribed. Transcription lags
+  // behind the audio, so these are more accurate than message arrival times.
+  let speaking = false;
+  let speechStartedAt: number | null = null;
+  let speechEndedAt: number | null = null;
+
+  // Audio captured before the connection opens is dropped
+  const capture = await startAudioCapture({
+    deviceId,
+    onDeviceUnavailable,
+    onLevel,
+    onAudio: pcm => live?.sendAudio(pcm),
+    onSpeechStart: () => {
+      speaking = true;
+      if (speechStartedAt === null) speechStartedAt = Date.now();
+    },
+    onSpeechEnd: () => {
+      speaking = false;
+      // The detector reports the end only after its hangover has passed
+      speechEndedAt = Date.now() - DEFAULT_VAD_OPTIONS.hangoverMs;
+      live?.endAudio();
+    }
+  });
+
+  const flush = () => {
+    const text = transcript.trim();
+    transcript = '';
+    const now = Date.now();
+    const startedAt = speechStartedAt ?? now;
+    const endedAt = Math.max(startedAt, speaking || speechEndedAt === null ? now : speechEndedAt);
+    // Speech still going on belongs to the next utterance
+    speechStartedAt = speaking ? now : null;
+    speechEndedAt = null;
+    if (text) onUtterance({ text, startedAt, endedAt });
+  };
+
+  try {
+    live = await provider.startTranscription({
+      onText: text => {
+        if (speechStartedAt === null) speechStartedAt = Date.now();
+        transcript = transcript ? transcript + ' ' + text : text;
+        onPartial(transcript.trim());
+      },
+      onTurnEnd: flush,
+      onError,
+      onClose: () => {
+        if (stopped) return;
+        stopped = true;
+        capture.stop();
+        onClose();
+      }
+    });
+  } catch (err) {
+    await capture.stop();
+    throw err;
+  }
+
+  return {
+    setMuted: capture.setMuted,
+    stop: async () => {
+      if (stopped) return;
+      stopped = true;
+      flush();
+      live?.close();
+      await capture.stop();
+    }
+  };
+};
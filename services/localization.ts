@@ -0,0 +1,506 @@
+import { LocalizationFormat, Segment } from "../types";
+import { escapeXml, escapeXmlText, parseXml } from "../utils/xml";
+import { ProtectedText, createProtector, protectPlaceholders, restorePlaceholders } from "./placeholders";
+import { parseIcuMessage, icuLeaves, renderIcuMessage } from "./icu";
+
+// Software localization files. Only string values are translated: keys, comments,
+// placeholders and ICU plural/select syntax are kept, and the file is written
+// back in its original format.
+
+export const LOCALIZATION_MIME_TYPES: Record<LocalizationFormat, string> = {
+  i18next: 'application/json',
+  po: 'text/x-gettext-translation',
+  xliff: 'application/xliff+xml',
+  android: 'application/xml',
+  ios: 'text/plain'
+};
+
+const EXTENSION_FORMATS: Record<string, LocalizationFormat> = {
+  json: 'i18next',
+  po: 'po',
+  pot: 'po',
+  xlf: 'xliff',
+  xliff: 'xliff',
+  xml: 'android',
+  strings: 'ios'
+};
+
+export const localizationFormatFromFileName = (fileName: string | null): LocalizationFormat | null => {
+  const extension = fileName?.match(/\.([a-z]+)$/i)?.[1].toLowerCase();
+  return (extension && EXTENSION_FORMATS[extension]) || null;
+};
+
+interface LocalizationEntry {
+  key: string;
+  // Plain source text, used to decide whether the entry needs translating
+  value: string;
+  // XML formats read inline markup straight into protected text
+  markup?: ProtectedText & { escapeText: (text: string) => string };
+  apply: (translated: string) => void;
+}
+
+interface LocalizationFile {
+  entries: LocalizationEntry[];
+  serialize: (targetLang: string) => string;
+}
+
+export interface LocalizationResult {
+  text: string;
+  pairs: { source: string; target: string }[];
+  // Keys left in the source language because placeholders did not survive translation
+  keptSource: string[];
+}
+
+// i18next JSON
+
+const readI18next = (text: string): LocalizationFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`This JSON file is not valid: ${err.message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('i18next files must contain a JSON object of translation keys.');
+  }
+
+  const entries: LocalizationEntry[] = [];
+  const walk = (node: Record<string, unknown>, path: string[]) => {
+    Object.keys(node).forEach(key => {
+      const value = node[key];
+      if (typeof value === 'string') {
+        entries.push({ key: [...path, key].join('.'), value, apply: translated => { node[key] = translated; } });
+      } else if (value && typeof value === 'object') {
+        walk(value as Record<string, unknown>, [...path, key]);
+      }
+    });
+  };
+  walk(data as Record<string, unknown>, []);
+
+  const indent = text.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+  return {
+    entries,
+    serialize: () => JSON.stringify(data, null, indent) + (text.endsWith('\n') ? '\n' : '')
+  };
+};
+
+// gettext PO/POT
+
+const PO_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+
+const unescapePo = (text: string) => text.replace(/\\(.)/g, (_, c) => PO_ESCAPES[c] ?? c);
+
+const escapePo = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t').replace(/\r/g, '\\r');
+
+// Multi-line values use gettext's usual layout: an empty first line, then one line per \n
+const formatPoString = (keyword: string, value: string) => {
+  const lines = value.split(/(?<=\n)/);
+  return lines.length > 1
+    ? [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)].join('\n')
+    : `${keyword} "${escapePo(value)}"`;
+};
+
+const readPo = (text: string): LocalizationFile => {
+  const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+  const blocks = text.replace(/\r\n?/g, '\n').split(/\n(?:[ \t]*\n)+/).map(b => b.trim()).filter(Boolean);
+  const nplurals = Number(text.match(/nplurals\s*=\s*(\d+)/)?.[1]) || 0;
+  const entries: LocalizationEntry[] = [];
+
+  const rendered: (() => string)[] = blocks.map(block => {
+    const lines = block.split('\n');
+    const fields: Record<string, string> = {};
+    let current: string | null = null;
+    let msgstrStart = -1;
+
+    lines.forEach((line, i) => {
+      // Comments, including obsolete #~ entries, are never translated
+      if (line.startsWith('#')) {
+        current = null;
+        return;
+      }
+      const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"((?:[^"\\]|\\.)*)"\s*$/);
+      if (keyword) {
+        current = keyword[1];
+        fields[current] = unescapePo(keyword[2]);
+        if (current.startsWith('msgstr') && msgstrStart < 0) msgstrStart = i;
+        return;
+      }
+      const continuation = line.match(/^\s*"((?:[^"\\]|\\.)*)"\s*$/);
+      if (continuation && current) fields[current] += unescapePo(continuation[1]);
+    });
+
+    if (fields.msgid === undefined || msgstrStart < 0) return () => block;
+
+    // The header entry is kept as is; its Language field is updated on serialize
+    if (fields.msgid === '') return () => block;
+
+    // Existing translations are kept; only empty entries are drafted
+    const msgstr: Record<string, string> = {};
+    Object.keys(fields).filter(k => k.startsWith('msgstr')).forEach(k => { msgstr[k] = fields[k]; });
+    if (Object.values(msgstr).some(Boolean)) return () => block;
+
+    const key = fields.msgctxt ? `${fields.msgctxt} | ${fields.msgid}` : fields.msgid;
+    if (fields.msgid_plural !== undefined) {
+      const forms = nplurals || Math.max(2, Object.keys(msgstr).length);
+      for (let i = 0; i < forms; i++) msgstr[`msgstr[${i}]`] ??= '';
+      entries.push({ key, value: fields.msgid, apply: translated => { msgstr['msgstr[0]'] = translated; } });
+      entries.push({
+        key: `${key} (plural)`,
+        value: fields.msgid_plural,
+        apply: translated => {
+          for (let i = 1; i < forms; i++) msgstr[`msgstr[${i}]`] = translated;
+        }
+      });
+    } else {
+      entries.push({ key, value: fields.msgid, apply: translated => { msgstr.msgstr = translated; } });
+    }
+
+    const head = lines.slice(0, msgstrStart);
+    return () => [...head, ...Object.entries(msgstr).map(([k, v]) => formatPoString(k, v))].join('\n');
+  });
+
+  return {
+    entries,
+    serialize: targetLang => (rendered
+      .map(render => render())
+      .join('\n\n')
+      .replace(/^"Language:[^"\\]*(\\n)?"$/m, (_, newline) => `"Language: ${targetLang}${newline || ''}"`) + '\n'
+    ).replace(/\n/g, lineEnding)
+  };
+};
+
+// Shared XML helpers for XLIFF and Android resources
+
+const attributesToXml = (el: Element) =>
+  Array.from(el.attributes).map(a => ` ${a.name}="${escapeXml(a.value)}"`).join('');
+
+const nodeToXml = (node: Node): string => {
+  switch (node.nodeType) {
+    case Node.TEXT_NODE:
+      return escapeXmlText(node.nodeValue || '');
+    case Node.CDATA_SECTION_NODE:
+      return `<![CDATA[${node.nodeValue}]]>`;
+    case Node.COMMENT_NODE:
+      return `<!--${node.nodeValue}-->`;
+    case Node.ELEMENT_NODE: {
+      const el = node as Element;
+      const children = Array.from(el.childNodes).map(nodeToXml).join('');
+      return children ? `<${el.tagName}${attributesToXml(el)}>${children}</${el.tagName}>` : `<${el.tagName}${attributesToXml(el)}/>`;
+    }
+    default:
+      return '';
+  }
+};
+
+// Inline elements become tokens; text is unescaped and has its placeholders protected
+const readMarkup = (el: Element, unescapeText: (text: string) => string, isOpaque: (el: Element) => boolean = () => false) => {
+  const protector = createProtector();
+  const walk = (parent: Node): string =>
+    Array.from(parent.childNodes).map(node => {
+      if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+        return protector.text(unescapeText(node.nodeValue || ''));
+      }
+      if (node.nodeType === Node.COMMENT_NODE) return protector.token(nodeToXml(node));
+      if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+      const child = node as Element;
+      if (isOpaque(child) || !child.hasChildNodes()) return protector.token(nodeToXml(child));
+      return protector.token(`<${child.tagName}${attributesToXml(child)}>`) + walk(child) + protector.token(`</${child.tagName}>`);
+    }).join('');
+
+  const text = walk(el);
+  return { text, tokens: protector.tokens };
+};
+
+const markupToPlainText = (markup: ProtectedText) =>
+  restorePlaceholders(markup.text, markup.tokens).text.replace(/<[^>]*>/g, '');
+
+const replaceChildrenWithMarkup = (el: Element, markup: string) => {
+  const root = el.ownerDocument.documentElement;
+  const namespaces = Array.from(root.attributes)
+    .filter(a => a.name === 'xmlns' || a.name.startsWith('xmlns:'))
+    .map(a => ` ${a.name}="${escapeXml(a.value)}"`)
+    .join('');
+  const fragment = parseXml(`<fragment${namespaces}>${markup}</fragment>`, 'Translated text is not well-formed XML.');
+  while (el.firstChild) el.removeChild(el.firstChild);
+  Array.from(fragment.documentElement.childNodes).forEach(node => el.appendChild(el.ownerDocument.importNode(node, true)));
+};
+
+const childElements = (el: Element, localName: string) =>
+  Array.from(el.childNodes).filter((node): node is Element => node.nodeType === Node.ELEMENT_NODE && (node as Element).localName === localName);
+
+// XMLSerializer drops the XML declaration in some browsers; keep the original one
+const serializeXml = (doc: Document, original: string) => {
+  const xml = new XMLSerializer().serializeToString(doc);
+  const declaration = original.match(/^\uFEFF?(<\?xml[^>]*\?>)/)?.[1];
+  const body = xml.replace(/^<\?xml[^>]*\?>\s*/, '');
+  return (declaration ? `${declaration}\n${body}` : body) + (original.endsWith('\n') ? '\n' : '');
+};
+
+// XLIFF 1.2 and 2.0
+
+const readXliff = (text: string): LocalizationFile => {
+  const doc = parseXml(text, 'This file is not a valid XLIFF document.');
+  const root = doc.documentElement;
+  if (root.localName !== 'xliff') throw new Error('This file is not a valid XLIFF document.');
+  const isV2 = (root.getAttribute('version') || '').startsWith('2');
+  const ns = root.namespaceURI;
+
+  const containers = isV2
+    ? Array.from(doc.getElementsByTagNameNS(ns, 'segment')).filter(s => (s.parentNode as Element).getAttribute('translate') !== 'no')
+    : Array.from(doc.getElementsByTagNameNS(ns, 'trans-unit')).filter(u => u.getAttribute('translate') !== 'no');
+
+  const entries = containers.flatMap((container): LocalizationEntry[] => {
+    const source = childElements(container, 'source')[0];
+    const existing = childElements(container, 'target')[0];
+    // Existing translations are kept; only empty targets are drafted
+    if (!source || existing?.textContent?.trim()) return [];
+
+    const unit = isV2 ? (container.parentNode as Element) : container;
+    const segmentId = isV2 && container.getAttribute('id') ? `#${container.getAttribute('id')}` : '';
+    const markup = { ...readMarkup(source, t => t), escapeText: escapeXmlText };
+
+    return [{
+      key: `${unit.getAttribute('id') || ''}${segmentId}`,
+      value: markupToPlainText(markup),
+      markup,
+      apply: translated => {
+        let target = existing;
+        if (!target) {
+          target = doc.createElementNS(ns, source.prefix ? `${source.prefix}:target` : 'target');
+          // Match the indentation used before <source>
+          const indent = source.previousSibling?.nodeType === Node.TEXT_NODE ? source.previousSibling.cloneNode() : null;
+          container.insertBefore(target, source.nextSibling);
+          if (indent) container.insertBefore(indent, target);
+        }
+        replaceChildrenWithMarkup(target, translated);
+      }
+    }];
+  });
+
+  return {
+    entries,
+    serialize: targetLang => {
+      if (isV2) root.setAttribute('trgLang', targetLang);
+      else Array.from(doc.getElementsByTagNameNS(ns, 'file')).forEach(file => file.setAttribute('target-language', targetLang));
+      return serializeXml(doc, text);
+    }
+  };
+};
+
+// Android strings.xml
+
+const XLIFF_12_NS = 'urn:oasis:names:tc:xliff:document:1.2';
+
+const unescapeAndroid = (text: string) =>
+  text.replace(/\\(u[0-9a-fA-F]{4}|.)|"/g, (match, escaped) => {
+    // Unescaped double quotes only delimit whitespace-preserving strings
+    if (!escaped) return '';
+    if (escaped.length === 5) return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    return escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+  });
+
+const escapeAndroid = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/^([@?])/, '\\$1');
+
+const readAndroidValue = (key: string, el: Element): LocalizationEntry => {
+  const isCdata = Array.from(el.childNodes).some(n => n.nodeType === Node.CDATA_SECTION_NODE);
+  // <xliff:g> marks text that must not be translated, e.g. <xliff:g id="count">%d</xliff:g>
+  const markup = {
+    ...readMarkup(el, unescapeAndroid, child => child.localName === 'g' && child.namespaceURI === XLIFF_12_NS),
+    escapeText: isCdata ? escapeAndroid : (t: string) => escapeXmlText(escapeAndroid(t))
+  };
+  return {
+    key,
+    value: markupToPlainText(markup),
+    markup,
+    apply: translated => {
+      if (isCdata) {
+        while (el.firstChild) el.removeChild(el.firstChild);
+        el.appendChild(el.ownerDocument.createCDATASection(translated));
+      } else {
+        replaceChildrenWithMarkup(el, translated);
+      }
+    }
+  };
+};
+
+const readAndroid = (text: string): LocalizationFile => {
+  const doc = parseXml(text, 'This file is not a valid Android resource file.');
+  const root = doc.documentElement;
+  if (root.localName !== 'resources') {
+    throw new Error('Only Android string resource files (<resources>) are supported for .xml uploads.');
+  }
+
+  const entries = Array.from(root.childNodes)
+    .filter((node): node is Element => node.nodeType === Node.ELEMENT_NODE)
+    .filter(el => el.getAttribute('translatable') !== 'false')
+    .flatMap((el): LocalizationEntry[] => {
+      const name = el.getAttribute('name') || '';
+      if (el.localName === 'string') return [readAndroidValue(name, el)];
+      if (el.localName === 'string-array') return childElements(el, 'item').map((item, i) => readAndroidValue(`${name}[${i}]`, item));
+      if (el.localName === 'plurals') return childElements(el, 'item').map(item => readAndroidValue(`${name}:${item.getAttribute('quantity')}`, item));
+      return [];
+    });
+
+  return { entries, serialize: () => serializeXml(doc, text) };
+};
+
+// iOS .strings
+
+const unescapeStrings = (text: string) =>
+  text.replace(/\\([Uu][0-9a-fA-F]{4}|.)/g, (_, escaped) => {
+    if (escaped.length === 5) return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    return escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === 'r' ? '\r' : escaped;
+  });
+
+const escapeStrings = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t');
+
+const readIosStrings = (text: string): LocalizationFile => {
+  const entries: LocalizationEntry[] = [];
+  const edits: { start: number; end: number; text: string }[] = [];
+  let i = 0;
+
+  const fail = () => {
+    const line = text.slice(0, i).split('\n').length;
+    throw new Error(`This .strings file could not be parsed near line ${line}.`);
+  };
+
+  const skipWhitespaceAndComments = () => {
+    while (i < text.length) {
+      if (/\s/.test(text[i])) i++;
+      else if (text.startsWith('/*', i)) i = text.indexOf('*/', i + 2) < 0 ? fail() : text.indexOf('*/', i + 2) + 2;
+      else if (text.startsWith('//', i)) i = text.indexOf('\n', i) < 0 ? text.length : text.indexOf('\n', i);
+      else break;
+    }
+  };
+
+  // Returns the raw (still escaped) contents and their position in the file
+  const readString = (allowUnquoted: boolean) => {
+    if (text[i] === '"') {
+      const start = i + 1;
+      let j = start;
+      while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1;
+      if (j >= text.length) fail();
+      i = j + 1;
+      return { raw: text.slice(start, j), start, end: j };
+    }
+    const unquoted = allowUnquoted ? text.slice(i).match(/^[A-Za-z0-9_.$-]+/)?.[0] : undefined;
+    if (!unquoted) return fail();
+    i += unquoted.length;
+    return { raw: unquoted, start: i - unquoted.length, end: i };
+  };
+
+  const expect = (ch: string) => {
+    skipWhitespaceAndComments();
+    if (text[i] !== ch) fail();
+    i++;
+    skipWhitespaceAndComments();
+  };
+
+  skipWhitespaceAndComments();
+  while (i < text.length) {
+    const key = readString(true);
+    expect('=');
+    const value = readString(false);
+    expect(';');
+    entries.push({
+      key: unescapeStrings(key.raw),
+      value: unescapeStrings(value.raw),
+      apply: translated => { edits.push({ start: value.start, end: value.end, text: escapeStrings(translated) }); }
+    });
+  }
+
+  return {
+    entries,
+    serialize: () => edits
+      .sort((a, b) => b.start - a.start)
+      .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), text)
+  };
+};
+
+const READERS: Record<LocalizationFormat, (text: string) => LocalizationFile> = {
+  i18next: readI18next,
+  po: readPo,
+  xliff: readXliff,
+  android: readAndroid,
+  ios: readIosStrings
+};
+
+// Entries made only of placeholders or punctuation are left alone
+const hasLetters = (text: string) => /\p{L}/u.test(text.replace(/<x\d+\/>/g, ''));
+
+const leafId = (entryIndex: number, leafIndex: number) => `u${entryIndex}_${leafIndex}`;
+
+const entryLeaves = (entry: LocalizationEntry): ProtectedText[] => {
+  if (entry.markup) return [entry.markup];
+  const icu = parseIcuMessage(entry.value);
+  return icu ? icuLeaves(icu) : [protectPlaceholders(entry.value)];
+};
+
+// Translatable units in document order. Ids only depend on the file's content,
+// so re-reading the same file when rebuilding yields the same ids.
+export const extractLocalizationSegments = (text: string, format: LocalizationFormat): Segment[] =>
+  READERS[format](text).entries.flatMap((entry, entryIndex) =>
+    hasLetters(entry.value)
+      ? entryLeaves(entry)
+        .map((leaf, leafIndex) => ({ id: leafId(entryIndex, leafIndex), text: leaf.text, trailing: '' }))
+        .filter(segment => hasLetters(segment.text))
+      : []
+  );
+
+export const rebuildLocalization = (
+  text: string,
+  format: LocalizationFormat,
+  translations: Record<string, string>,
+  targetLang: string
+): LocalizationResult => {
+  const file = READERS[format](text);
+  const pairs: LocalizationResult['pairs'] = [];
+  const keptSource: string[] = [];
+
+  file.entries.forEach((entry, entryIndex) => {
+    if (!hasLetters(entry.value)) return;
+    const leaves = entryLeaves(entry);
+    const translated = leaves.map((leaf, i) => translations[leafId(entryIndex, i)] ?? (hasLetters(leaf.text) ? undefined : leaf.text));
+    if (translated.some(t => t === undefined)) {
+      keptSource.push(entry.key);
+      return;
+    }
+
+    let result: string | null;
+    const icu = entry.markup ? null : parseIcuMessage(entry.value);
+    if (icu) {
+      result = renderIcuMessage(icu, translated as string[]);
+    } else {
+      const restored = restorePlaceholders(translated[0]!, leaves[0].tokens, entry.markup?.escapeText);
+      result = restored.missing.length || restored.duplicated.length ? null : restored.text;
+    }
+    if (result === null) {
+      keptSource.push(entry.key);
+      return;
+    }
+
+    try {
+      entry.apply(result);
+    } catch (err) {
+      console.warn(`Kept source text for "${entry.key}":`, err);
+      keptSource.push(entry.key);
+      return;
+    }
+    pairs.push({
+      source: entry.value,
+      target: entry.markup ? markupToPlainText({ text: translated[0]!, tokens: leaves[0].tokens }) : result
+    });
+  });
+
+  return { text: file.serialize(targetLang), pairs, keptSource };
+};
@@ -0,0 +1,257 @@
+import { TranslationResult, TranslationProvider, TranslationOptions, GlossaryTerm, Segment, SegmentUpdate, AlternativesRequest, TranslationAlternative, InterpretationResult, SpeechOptions, OcrBlock, TranscriptionCallbacks, TranscriptionSession } from "../types";
+import { termPattern } from "./glossary";
+import { getBaseLanguage } from "./languages";
+
+// Offline backend used for development, demos and automated tests.
+// Output is deterministic: known words are looked up in a small dictionary,
+// everything else is echoed back tagged with the target language code.
+
+const MOCK_STREAM_DELAY_MS = 40;
+const MOCK_REQUEST_DELAY_MS = 150;
+const MOCK_SAMPLE_RATE = 24000;
+
+const MOCK_DICTIONARY: Record<string, Record<string, string>> = {
+  hello: { es: 'hola', fr: 'bonjour', de: 'hallo', it: 'ciao', pt: 'olá', nl: 'hallo' },
+  goodbye: { es: 'adiós', fr: 'au revoir', de: 'auf wiedersehen', it: 'arrivederci', pt: 'adeus', nl: 'tot ziens' },
+  yes: { es: 'sí', fr: 'oui', de: 'ja', it: 'sì', pt: 'sim', nl: 'ja' },
+  no: { es: 'no', fr: 'non', de: 'nein', it: 'no', pt: 'não', nl: 'nee' },
+  please: { es: 'por favor', fr: "s'il vous plaît", de: 'bitte', it: 'per favore', pt: 'por favor', nl: 'alstublieft' },
+  thanks: { es: 'gracias', fr: 'merci', de: 'danke', it: 'grazie', pt: 'obrigado', nl: 'bedankt' },
+  world: { es: 'mundo', fr: 'monde', de: 'welt', it: 'mondo', pt: 'mundo', nl: 'wereld' },
+  good: { es: 'bueno', fr: 'bon', de: 'gut', it: 'buono', pt: 'bom', nl: 'goed' },
+  morning: { es: 'mañana', fr: 'matin', de: 'morgen', it: 'mattina', pt: 'manhã', nl: 'ochtend' },
+  friend: { es: 'amigo', fr: 'ami', de: 'freund', it: 'amico', pt: 'amigo', nl: 'vriend' },
+  water: { es: 'agua', fr: 'eau', de: 'wasser', it: 'acqua', pt: 'água', nl: 'water' },
+  house: { es: 'casa', fr: 'maison', de: 'haus', it: 'casa', pt: 'casa', nl: 'huis' },
+  the: { es: 'el', fr: 'le', de: 'der', it: 'il', pt: 'o', nl: 'de' },
+  and: { es: 'y', fr: 'et', de: 'und', it: 'e', pt: 'e', nl: 'en' },
+  is: { es: 'es', fr: 'est', de: 'ist', it: 'è', pt: 'é', nl: 'is' }
+};
+
+const SCRIPT_HINTS: { pattern: RegExp; code: string }[] = [
+  { pattern: /[\u3040-\u30FF]/, code: 'ja' },
+  { pattern: /[\uAC00-\uD7AF]/, code: 'ko' },
+  { pattern: /[\u4E00-\u9FFF]/, code: 'zh' },
+  { pattern: /[\u0400-\u04FF]/, code: 'ru' },
+  { pattern: /[\u0600-\u06FF]/, code: 'ar' },
+  { pattern: /[\u0900-\u097F]/, code: 'hi' },
+  { pattern: /[\u0E00-\u0E7F]/, code: 'th' }
+];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const detectMockLanguage = (text: string) =>
+  SCRIPT_HINTS.find(hint => hint.pattern.test(text))?.code || 'en';
+
+const translateToken = (token: string, targetLang: string) => {
+  const entry = MOCK_DICTIONARY[token.toLowerCase()];
+  const translated = entry?.[targetLang] ?? entry?.[getBaseLanguage(targetLang)];
+  if (!translated) return null;
+  return token[0] === token[0].toUpperCase()
+    ? translated[0].toUpperCase() + translated.slice(1)
+    : translated;
+};
+
+// Glossary terms are swapped for private-use markers so the dictionary pass can't touch them
+const mockTranslate = (text: string, targetLang: string, glossary: GlossaryTerm[] = []) => {
+  const protectedTerms: string[] = [];
+  let input = text;
+  glossary.forEach(term => {
+    input = input.replace(termPattern(term.source, term.caseSensitive), () => {
+      protectedTerms.push(term.target);
+      return `\uE000${protectedTerms.length - 1}\uE001`;
+    });
+  });
+
+  let matched = protectedTerms.length > 0;
+  const output = input
+    .replace(/\p{L}+/gu, (word) => {
+      const translated = translateToken(word, targetLang);
+      if (translated) matched = true;
+      return translated ?? word;
+    })
+    .replace(/\uE000(\d+)\uE001/g, (_, i) => protectedTerms[Number(i)]);
+  return matched ? output : `[${targetLang}] ${output}`;
+};
+
+export const translateText = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<TranslationResult> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  const detected = sourceLang === 'auto' ? detectMockLanguage(text) : sourceLang;
+  return {
+    translatedText: mockTranslate(text, targetLang, options.glossary),
+    detectedLanguage: detected,
+    confidence: sourceLang === 'auto' ? 0.75 : 1
+  };
+};
+
+export async function* translateTextStream(
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+) {
+  const translated = mockTranslate(text, targetLang, options.glossary);
+  // Emit word-sized chunks (keeping whitespace) to mimic model streaming
+  for (const chunk of translated.match(/\S+\s*|\s+/g) || []) {
+    await delay(MOCK_STREAM_DELAY_MS);
+    yield chunk;
+  }
+}
+
+export async function* translateSegmentsStream(
+  segments: Pick<Segment, 'id' | 'text'>[],
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): AsyncGenerator<SegmentUpdate> {
+  if (sourceLang === 'auto') {
+    options.onDetection?.({ language: detectMockLanguage(segments.map(s => s.text).join(' ')), confidence: 0.75 });
+  }
+  for (const segment of segments) {
+    let partial = '';
+    const words = mockTranslate(segment.text, targetLang, options.glossary).match(/\S+\s*/g) || [];
+    for (const word of words) {
+      await delay(MOCK_STREAM_DELAY_MS);
+      partial += word;
+      yield { id: segment.id, text: partial.trim(), done: false };
+    }
+    yield { id: segment.id, text: partial.trim(), done: true };
+  }
+}
+
+export const translateDocument = async (
+  segments: Pick<Segment, 'id' | 'text'>[],
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<Record<string, string>> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  const translations: Record<string, string> = {};
+  segments.forEach(segment => {
+    translations[segment.id] = mockTranslate(segment.text, targetLang, options.glossary);
+  });
+  return translations;
+};
+
+// Nothing is actually read from the image: a fixed sign and caption make the
+// overlay preview and export testable offline
+const MOCK_OCR_LINES: { text: string; box: OcrBlock['box'] }[] = [
+  { text: 'Hello world', box: { x: 0.1, y: 0.08, width: 0.8, height: 0.12 } },
+  { text: 'Good morning', box: { x: 0.25, y: 0.8, width: 0.5, height: 0.08 } }
+];
+
+export const translateImage = async (
+  base64Data: string,
+  mimeType: string,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<OcrBlock[]> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  return MOCK_OCR_LINES.map((line, index) => ({
+    id: `b${index}`,
+    sourceText: line.text,
+    translatedText: mockTranslate(line.text, targetLang, options.glossary),
+    box: line.box
+  }));
+};
+
+// Simple casing and punctuation variants so the accept flow can be exercised offline
+export const suggestAlternatives = async (
+  request: AlternativesRequest,
+  sourceLang: string,
+  targetLang: string,
+  options: TranslationOptions = {}
+): Promise<TranslationAlternative[]> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  const phrase = request.phrase.trim();
+  const candidates: TranslationAlternative[] = [
+    { text: phrase.toLowerCase(), explanation: 'All lowercase.' },
+    { text: phrase[0].toUpperCase() + phrase.slice(1), explanation: 'Capitalized first letter.' },
+    { text: `${phrase} (${targetLang})`, explanation: 'Annotated with the target language.' },
+    { text: `«${phrase}»`, explanation: 'Quoted for emphasis.' },
+    { text: phrase.toUpperCase(), explanation: 'All uppercase.' }
+  ];
+  const seen = new Set([phrase]);
+  return candidates
+    .filter(c => !seen.has(c.text) && seen.add(c.text))
+    .slice(0, request.count);
+};
+
+// The second language wins when the script or a dictionary word points to it
+export const interpretUtterance = async (
+  text: string,
+  languages: [string, string],
+  options: TranslationOptions = {}
+): Promise<InterpretationResult> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  const [first, second] = languages;
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  const isSecond = detectMockLanguage(text) === second ||
+    words.some(word => Object.values(MOCK_DICTIONARY).some(entry => entry[second] === word));
+  const spokenLang = isSecond ? second : first;
+  const targetLang = isSecond ? first : second;
+  return { spokenLang, translatedText: mockTranslate(text, targetLang, options.glossary) };
+};
+
+// Leaves the words untouched; the rule-based cleanup in dictation.ts does the rest
+export const punctuateTranscript = async (text: string): Promise<string> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  return text;
+};
+
+export const generateSpeech = async (text: string, options?: SpeechOptions): Promise<ArrayBuffer> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  // Short 16-bit PCM beep whose length scales with the text and rate, matching Gemini TTS output format
+  const duration = Math.min(0.2 + text.length * 0.02, 3) / (options?.rate || 1);
+  const samples = new Int16Array(Math.floor(MOCK_SAMPLE_RATE * duration));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / MOCK_SAMPLE_RATE) * 8000);
+  }
+  return samples.buffer;
+};
+
+// Nothing is recognised: every utterance the voice activity detector ends is heard as the
+// next of these phrases, word by word, so the live modes can be exercised without a key
+const MOCK_TRANSCRIPTS = ['Hello world', 'Good morning my friend', 'Thanks and goodbye'];
+
+export const startTranscription = async (callbacks: TranscriptionCallbacks): Promise<TranscriptionSession> => {
+  await delay(MOCK_REQUEST_DELAY_MS);
+  let utterances = 0;
+  let closed = false;
+  return {
+    sendAudio: () => {},
+    endAudio: () => {
+      const words = MOCK_TRANSCRIPTS[utterances++ % MOCK_TRANSCRIPTS.length].split(' ');
+      words.forEach((word, i) => setTimeout(() => {
+        if (closed) return;
+        callbacks.onText(word);
+        if (i === words.length - 1) callbacks.onTurnEnd();
+      }, (i + 1) * MOCK_STREAM_DELAY_MS));
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      callbacks.onClose();
+    }
+  };
+};
+
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  translateText,
+  translateTextStream,
+  translateSegmentsStream,
+  translateDocument,
+  translateImage,
+  suggestAlternatives,
+  interpretUtterance,
+  punctuateTranscript,
+  generateSpeech,
+  startTranscription
+};
@@ -0,0 +1,84 @@
+import { GlobalWorkerOptions, getDocument, version as pdfjsVersion } from "pdfjs-dist";
+
+// PDF reading through pdf.js: the text layer of digital PDFs, which is translated
+// like a text file, and the pages of scanned ones (see scannedDocument).
+
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsVersion}/build/pdf.worker.min.mjs`;
+
+// PDFs with less text than this per page are scans (at most a stray page number or stamp)
+const MIN_TEXT_CHARS_PER_PAGE = 20;
+// A gap between lines this much taller than the text starts a new paragraph
+const PARAGRAPH_GAP = 1.6;
+
+export interface PdfText {
+  // Paragraphs separated by blank lines, with the lines inside a paragraph joined
+  text: string;
+  pageCount: number;
+}
+
+interface PdfLine {
+  text: string;
+  // Baseline position and font size, in PDF units from the bottom of the page
+  y: number;
+  height: number;
+}
+
+// pdf.js hands the buffer to its worker, which detaches it, so it always gets a copy
+export const openPdf = (data: ArrayBuffer) => getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+
+// Lines are joined into paragraphs so the model sees whole sentences; a line ending
+// in a hyphen before a lowercase letter was a word broken across lines
+const joinLines = (lines: PdfLine[]) => {
+  const paragraphs: string[] = [];
+  let current = '';
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    if (previous && (gap > Math.max(previous.height, line.height) * PARAGRAPH_GAP || gap < 0)) {
+      paragraphs.push(current);
+      current = '';
+    }
+    if (!current) {
+      current = line.text;
+    } else if (/\p{L}-$/u.test(current) && /^\p{Ll}/u.test(line.text)) {
+      current = current.slice(0, -1) + line.text;
+    } else {
+      current += ` ${line.text}`;
+    }
+  });
+  if (current) paragraphs.push(current);
+  return paragraphs;
+};
+
+export const extractPdfText = async (data: ArrayBuffer): Promise<PdfText> => {
+  const pdf = await openPdf(data);
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const lines: PdfLine[] = [];
+      let line: PdfLine | null = null;
+      content.items.forEach(item => {
+        if (!('str' in item)) return;
+        if (!line) line = { text: '', y: item.transform[5], height: item.height };
+        line.text += item.str;
+        line.height = Math.max(line.height, item.height);
+        if (item.hasEOL) {
+          if (line.text.trim()) lines.push({ ...line, text: line.text.replace(/\s+/g, ' ').trim() });
+          line = null;
+        }
+      });
+      const last = line as PdfLine | null;
+      if (last?.text.trim()) lines.push({ ...last, text: last.text.replace(/\s+/g, ' ').trim() });
+      pages.push(...joinLines(lines));
+      page.cleanup();
+    }
+    return { text: pages.join('\n\n'), pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+};
+
+export const hasTextLayer = (pdf: PdfText) =>
+  pdf.text.replace(/\s/g, '').length > MIN_TEXT_CHARS_PER_PAGE * pdf.pageCount;
@@ -0,0 +1,67 @@
+// Minimal PDF writer for image-only documents: one JPEG per page, drawn to
+// fill the page. Enough for exporting translated scans without a PDF library.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  // Pixel size of the JPEG
+  width: number;
+  height: number;
+}
+
+// Pages keep the image's aspect ratio with the long side as long as A4's
+const PAGE_LONG_SIDE_PT = 842;
+
+const encoder = new TextEncoder();
+
+export const buildImagePdf = (pages: PdfImagePage[]): Blob => {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; each page then takes
+  // three: the page, its content stream and its image
+  const pageId = (index: number) => 3 + index * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const scale = PAGE_LONG_SIDE_PT / Math.max(page.width, page.height);
+    const width = (page.width * scale).toFixed(2);
+    const height = (page.height * scale).toFixed(2);
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+
+    beginObject(id);
+    write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+    beginObject(id + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    beginObject(id + 2);
+    write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  // Cross-reference entries are exactly 20 bytes each, hence the two-character line ends
+  const xrefOffset = length;
+  const objectCount = offsets.length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
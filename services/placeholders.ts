@@ -0,0 +1,127 @@
+// Placeholder protection. Variables and markup are swapped for numbered <xN/>
+// tokens before translation and swapped back afterwards, so the model can move
+// them around but never rewrite them.
+
+// i18next {{var}} and $t(key), ICU/format {name} and {0}, printf/Objective-C
+// (%s, %1$d, %@, %.2f, %%), Python %(name)s and inline HTML tags
+export const PLACEHOLDER_PATTERN = /\{\{[^{}]*\}\}|\$t\([^)]*\)|\{[^{}]*\}|%\([^)]+\)[sdifr]|%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?(?:hh|h|ll|l|q|z|t|j)?[@dDiuUxXoOfFeEgGcCsSpaA%]|<\/?[a-zA-Z][^<>]*>/g;
+
+// Fenced code blocks and HTML comments, which can span several lines. segmentText
+// keeps those as single segments so they are protected whole.
+export const BLOCK_PLACEHOLDER_PATTERN = /```[\s\S]*?```|<!--[\s\S]*?-->/g;
+
+// Free text pasted into the editor: code spans, Markdown link targets, bare URLs,
+// HTML comments and entities on top of the syntaxes above. printf specifiers
+// may not use the space flag here, so prose like "50% of" is left alone.
+export const TEXT_PLACEHOLDER_PATTERN = new RegExp([
+  BLOCK_PLACEHOLDER_PATTERN.source,
+  /`[^`\n]+`/.source,
+  /\]\([^()\s]+(?:\s+"[^"]*")?\)/.source,
+  /\bhttps?:\/\/[^\s<>"'`]*[^\s<>"'`.,;:!?)\]]/.source,
+  /&(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);/.source,
+  /\{\{[^{}]*\}\}|\$t\([^)]*\)|\{[^{}]*\}|%\([^)]+\)[sdifr]/.source,
+  /%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?(?:hh|h|ll|l|q|z|t|j)?[@dDiuUxXoOfFeEgGcCsSpaA%]/.source,
+  /<\/?[a-zA-Z][^<>]*>/.source
+].join('|'), 'g');
+
+const TOKEN_PATTERN = /<x(\d+)\/>/g;
+
+// Nothing is left to translate once the placeholders are taken out, e.g. a code block on its own
+export const isOnlyPlaceholders = (text: string, pattern: RegExp = PLACEHOLDER_PATTERN) =>
+  !text.replace(pattern, '').trim();
+
+export interface ProtectedText {
+  text: string;
+  tokens: string[];
+}
+
+export interface RestoredText {
+  text: string;
+  // Token indices the translation dropped or repeated
+  missing: number[];
+  duplicated: number[];
+}
+
+// Builds protected text piece by piece, for callers that walk structured content
+export const createProtector = () => {
+  const tokens: string[] = [];
+  const token = (raw: string) => {
+    tokens.push(raw);
+    return `<x${tokens.length - 1}/>`;
+  };
+  const text = (raw: string, pattern: RegExp = PLACEHOLDER_PATTERN) => raw.replace(pattern, match => token(match));
+  return { tokens, token, text };
+};
+
+export const protectPlaceholders = (text: string, pattern: RegExp = PLACEHOLDER_PATTERN): ProtectedText => {
+  const protector = createProtector();
+  return { text: protector.text(text, pattern), tokens: protector.tokens };
+};
+
+// DOCX paragraphs arrive with <rN>...</rN> run tags (see docxService). Only the text
+// between the tags is protected, so run markup is left for the model to move around.
+export const protectRunText = (text: string, pattern: RegExp = TEXT_PLACEHOLDER_PATTERN): ProtectedText => {
+  const protector = createProtector();
+  const protectedText = text
+    .split(/(<\/?r\d+>)/)
+    .map((part, index) => (index % 2 === 1 ? part : protector.text(part, pattern)))
+    .join('');
+  return { text: protectedText, tokens: protector.tokens };
+};
+
+// escapeText is applied to the translated text between tokens only, e.g. XML
+// escaping when the tokens themselves are markup
+export const restorePlaceholders = (
+  text: string,
+  tokens: string[],
+  escapeText: (text: string) => string = t => t
+): RestoredText => {
+  const seen = new Array(tokens.length).fill(0);
+  let result = '';
+  let last = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = Number(match[1]);
+    result += escapeText(text.slice(last, match.index));
+    // Unknown tokens are dropped rather than leaking into the output
+    if (index < tokens.length) {
+      seen[index]++;
+      result += tokens[index];
+    }
+    last = match.index! + match[0].length;
+  }
+  result += escapeText(text.slice(last));
+
+  return {
+    text: result,
+    missing: seen.flatMap((count, i) => (count === 0 ? [i] : [])),
+    duplicated: seen.flatMap((count, i) => (count > 1 ? [i] : []))
+  };
+};
+
+// Streamed text can end halfway through a token; that tail is hidden until it completes
+export const restorePartialPlaceholders = (text: string, tokens: string[]) =>
+  restorePlaceholders(text.replace(/<(?:x\d*\/?)?$/, ''), tokens).text;
+
+export class PlaceholderMismatchError extends Error {
+  constructor(public readonly missing: string[], public readonly duplicated: string[]) {
+    const problems = [
+      missing.length > 0 ? `dropped ${missing.join(', ')}` : '',
+      duplicated.length > 0 ? `duplicated ${duplicated.join(', ')}` : ''
+    ].filter(Boolean);
+    super(`The translation ${problems.join(' and ')}. Retranslate to restore the original placeholders.`);
+    this.name = 'PlaceholderMismatchError';
+  }
+}
+
+// Like restorePlaceholders, but every token has to come back exactly once
+export const restorePlaceholdersStrict = (text: string, tokens: string[]) => {
+  const restored = restorePlaceholders(text, tokens);
+  if (restored.missing.length > 0 || restored.duplicated.length > 0) {
+    throw new PlaceholderMismatchError(
+      restored.missing.map(i => tokens[i]),
+      restored.duplicated.map(i => tokens[i])
+    );
+  }
+  return restored.text;
+};
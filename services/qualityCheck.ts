@@ -0,0 +1,257 @@
+import { DiffPart, QualityIssue, QualityIssueKind, Segment, SegmentQuality, TranslationProvider } from "../types";
+import { APP_CONFIG } from "../constants";
+import { termPattern } from "./glossary";
+
+// Heuristic quality estimation. Local checks (numbers, URLs, untranslated
+// fragments) always run; omissions and additions are judged against a
+// back-translation into the source language when one is available.
+
+interface Token {
+  text: string;
+  key: string;
+  isWord: boolean;
+}
+
+// Any single issue except an addition is enough to push a segment below the warning threshold
+const PENALTIES: Record<QualityIssueKind, number> = {
+  omission: 0.35,
+  addition: 0.2,
+  number_mismatch: 0.35,
+  url_mismatch: 0.35,
+  untranslated: 0.35
+};
+
+// Share of source words the back-translation must reproduce before content counts as lost
+const MIN_OVERLAP = 0.6;
+const MAX_LISTED = 5;
+// Word diffs above this many token pairs are shown as a plain replacement
+const MAX_DIFF_CELLS = 200000;
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"]+|\bwww\.[^\s<>"]+|[\w.+-]+@[\w-]+\.[\w.-]+/gi;
+// A plain space only counts as a separator before a group of exactly three digits
+const NUMBER_PATTERN = /\p{Nd}+(?:[.,'\u00A0\u202F]\p{Nd}+| \p{Nd}{3}(?!\p{Nd}))*/gu;
+// Scripts written without spaces, where character counts and word lengths mean something else
+const DENSE_SCRIPT = /[\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF\u0E00-\u0E7F]/;
+// Zero digit of the non-ASCII decimal systems we normalize
+const DIGIT_ZEROS = [0x0660, 0x06F0, 0x0966, 0x09E6, 0x0E50, 0xFF10];
+
+const localeOf = (lang: string) => (lang && lang !== 'auto' ? lang : undefined);
+
+const tokenize = (text: string, lang: string): Token[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(localeOf(lang), { granularity: 'word' });
+    return Array.from(segmenter.segment(text), s => ({
+      text: s.segment,
+      key: s.segment.trim() ? s.segment.toLocaleLowerCase() : ' ',
+      isWord: !!s.isWordLike
+    }));
+  }
+  return (text.match(/[\p{L}\p{N}]+|\s+|[^\s\p{L}\p{N}]/gu) || []).map(t => ({
+    text: t,
+    key: t.trim() ? t.toLocaleLowerCase() : ' ',
+    isWord: /[\p{L}\p{N}]/u.test(t)
+  }));
+};
+
+const words = (text: string, lang: string) => tokenize(text, lang).filter(t => t.isWord).map(t => t.key);
+
+// Short function words carry little meaning; dense scripts have no such length signal
+const contentWords = (text: string, lang: string) =>
+  words(text, lang).filter(w => w.length >= 3 || /\p{N}/u.test(w) || DENSE_SCRIPT.test(w));
+
+// Items of `expected` not matched one-to-one in `actual`
+const missingFrom = (expected: string[], actual: string[]) => {
+  const counts = new Map<string, number>();
+  actual.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return expected.filter(v => {
+    const left = counts.get(v) || 0;
+    if (left === 0) return true;
+    counts.set(v, left - 1);
+    return false;
+  });
+};
+
+const quoteList = (items: string[]) => {
+  const unique = Array.from(new Set(items));
+  const listed = unique.slice(0, MAX_LISTED).map(i => `"${i}"`).join(', ');
+  return unique.length > MAX_LISTED ? `${listed}…` : listed;
+};
+
+const normalizeDigits = (text: string) =>
+  text.replace(/\p{Nd}/gu, digit => {
+    const code = digit.codePointAt(0)!;
+    const zero = DIGIT_ZEROS.find(z => code >= z && code <= z + 9);
+    return zero === undefined ? digit : String(code - zero);
+  });
+
+const extractUrls = (text: string) =>
+  (text.match(URL_PATTERN) || []).map(url => url.replace(/[.,;:!?)\]]+$/, ''));
+
+// Separators differ by locale (1,000.5 vs 1.000,5), so only the digits are compared
+const extractNumbers = (text: string) =>
+  (normalizeDigits(text.replace(URL_PATTERN, ' ')).match(NUMBER_PATTERN) || [])
+    .map(n => n.replace(/\D/g, '').replace(/^0+(?=\d)/, ''));
+
+const checkEntities = (source: string, target: string): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+  const sourceNumbers = extractNumbers(source);
+  const targetNumbers = extractNumbers(target);
+  const lostNumbers = missingFrom(sourceNumbers, targetNumbers);
+  const newNumbers = missingFrom(targetNumbers, sourceNumbers);
+  if (lostNumbers.length > 0 || newNumbers.length > 0) {
+    const parts = [
+      lostNumbers.length > 0 ? `missing ${quoteList(lostNumbers)}` : '',
+      newNumbers.length > 0 ? `unexpected ${quoteList(newNumbers)}` : ''
+    ].filter(Boolean);
+    issues.push({ kind: 'number_mismatch', message: `Numbers or dates differ: ${parts.join('; ')}.` });
+  }
+
+  const lostUrls = missingFrom(extractUrls(source), extractUrls(target));
+  if (lostUrls.length > 0) {
+    issues.push({ kind: 'url_mismatch', message: `Links or addresses changed or missing: ${quoteList(lostUrls)}.` });
+  }
+  return issues;
+};
+
+// Runs of three or more source words copied verbatim into the translation
+const findUntranslated = (source: string, target: string, sourceLang: string, targetLang: string) => {
+  const sourceWords = words(source, sourceLang).filter(w => /\p{L}/u.test(w));
+  const targetWords = words(target, targetLang).filter(w => /\p{L}/u.test(w));
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 2 < sourceWords.length; i++) trigrams.add(sourceWords.slice(i, i + 3).join(' '));
+  const copied = new Array(targetWords.length).fill(false);
+  for (let i = 0; i + 2 < targetWords.length; i++) {
+    if (trigrams.has(targetWords.slice(i, i + 3).join(' '))) copied[i] = copied[i + 1] = copied[i + 2] = true;
+  }
+
+  const fragments: string[] = [];
+  let run: string[] = [];
+  targetWords.forEach((word, i) => {
+    if (copied[i]) run.push(word);
+    if ((!copied[i] || i === targetWords.length - 1) && run.length > 0) {
+      fragments.push(run.join(' '));
+      run = [];
+    }
+  });
+  return fragments;
+};
+
+// Token-level LCS between two texts, merged into runs
+export const diffTexts = (before: string, after: string, lang: string): DiffPart[] => {
+  const a = tokenize(before, lang);
+  const b = tokenize(after, lang);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: 'removed', text: before }, { type: 'added', text: after }];
+  }
+
+  const width = b.length + 1;
+  const lengths = new Uint16Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i].key === b[j].key
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].key === b[j].key) {
+      push('equal', a[i].text);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push('removed', a[i++].text);
+    } else {
+      push('added', b[j++].text);
+    }
+  }
+  while (i < a.length) push('removed', a[i++].text);
+  while (j < b.length) push('added', b[j++].text);
+  return parts;
+};
+
+export const checkSegmentQuality = ({
+  source,
+  target,
+  backTranslation = null,
+  sourceLang,
+  targetLang,
+  keepTerms = []
+}: {
+  source: string;
+  target: string;
+  backTranslation?: string | null;
+  sourceLang: string;
+  targetLang: string;
+  // Terms that are meant to stay untranslated, e.g. do-not-translate glossary entries
+  keepTerms?: string[];
+}): SegmentQuality => {
+  const issues = checkEntities(source, target);
+
+  if (sourceLang !== targetLang) {
+    const strip = (text: string) =>
+      keepTerms.reduce((t, term) => t.replace(termPattern(term, false), ' '), text.replace(URL_PATTERN, ' '));
+    const fragments = findUntranslated(strip(source), strip(target), sourceLang, targetLang);
+    if (fragments.length > 0) {
+      issues.push({ kind: 'untranslated', message: `Possibly left untranslated: ${quoteList(fragments)}.` });
+    }
+  }
+
+  let base = 1;
+  if (backTranslation) {
+    const sourceContent = contentWords(source, sourceLang);
+    const backContent = contentWords(backTranslation, sourceLang);
+    const lost = missingFrom(sourceContent, backContent);
+    const added = missingFrom(backContent, sourceContent);
+    const recall = sourceContent.length ? 1 - lost.length / sourceContent.length : 1;
+    const precision = backContent.length ? 1 - added.length / backContent.length : 1;
+    const f1 = recall + precision > 0 ? (2 * recall * precision) / (recall + precision) : 0;
+    base = 0.4 + 0.6 * f1;
+
+    if (recall < MIN_OVERLAP && lost.length >= 2) {
+      issues.push({ kind: 'omission', message: `Back-translation lacks ${quoteList(lost)}; content may be missing.` });
+    }
+    if (precision < MIN_OVERLAP && added.length >= 2) {
+      issues.push({ kind: 'addition', message: `Back-translation adds ${quoteList(added)}; content may have been added.` });
+    }
+  } else if (!DENSE_SCRIPT.test(source) && !DENSE_SCRIPT.test(target) && source.length >= 40) {
+    // Without a back-translation only a drastic length change is telling
+    const ratio = target.length / source.length;
+    if (ratio < 0.5) issues.push({ kind: 'omission', message: 'The translation is much shorter than the source.' });
+    if (ratio > 2) issues.push({ kind: 'addition', message: 'The translation is much longer than the source.' });
+  }
+
+  const penalty = issues.reduce((sum, issue) => sum + PENALTIES[issue.kind], 0);
+  return {
+    score: Math.round(Math.max(0, Math.min(1, base - penalty)) * 100) / 100,
+    issues,
+    backTranslation,
+    diff: backTranslation ? diffTexts(source, backTranslation, sourceLang) : null
+  };
+};
+
+export const isRiskySegment = (quality: SegmentQuality | undefined) =>
+  !!quality && quality.score < APP_CONFIG.QA_WARNING_THRESHOLD;
+
+// Translates finished segments back into the source language, keyed by segment id
+export const backTranslateSegments = async (
+  segments: Pick<Segment, 'id' | 'text'>[],
+  targetLang: string,
+  sourceLang: string,
+  provider: TranslationProvider
+): Promise<Record<string, string>> => {
+  const result: Record<string, string> = {};
+  if (segments.length === 0) return result;
+  for await (const update of provider.translateSegmentsStream(segments, targetLang, sourceLang)) {
+    if (update.done) result[update.id] = update.text;
+  }
+  return result;
+};
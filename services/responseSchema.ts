@@ -0,0 +1,61 @@
+import { Schema, Type } from "@google/genai";
+import { ServiceError } from "./errors";
+
+// JSON responses are checked against the same schema that was sent as
+// responseSchema; the model usually honours it, but not always.
+
+// Returns a description of the first mismatch, or null when the value fits
+const findMismatch = (value: unknown, schema: Schema, path: string): string | null => {
+  if (value === null || value === undefined) return schema.nullable ? null : `${path} is missing`;
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return `${path} is not an object`;
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).find(key => record[key] === undefined);
+      if (missing) return `${path}.${missing} is missing`;
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        if (record[key] === undefined) continue;
+        const mismatch = findMismatch(record[key], property, `${path}.${key}`);
+        if (mismatch) return mismatch;
+      }
+      return null;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return `${path} is not an array`;
+      if (!schema.items) return null;
+      for (let i = 0; i < value.length; i++) {
+        const mismatch = findMismatch(value[i], schema.items, `${path}[${i}]`);
+        if (mismatch) return mismatch;
+      }
+      return null;
+    }
+    case Type.STRING:
+      if (typeof value !== 'string') return `${path} is not a string`;
+      return schema.enum && !schema.enum.includes(value) ? `${path} is not one of ${schema.enum.join(', ')}` : null;
+    case Type.NUMBER:
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${path} is not a number`;
+    case Type.INTEGER:
+      return Number.isInteger(value) ? null : `${path} is not an integer`;
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? null : `${path} is not a boolean`;
+    default:
+      return null;
+  }
+};
+
+export const parseStructuredResponse = <T>(text: string | undefined, schema: Schema): T => {
+  if (!text) throw new ServiceError('malformed');
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new ServiceError('malformed');
+  }
+  const mismatch = findMismatch(value, schema, 'response');
+  if (mismatch) {
+    console.error('Malformed response:', mismatch);
+    throw new ServiceError('malformed');
+  }
+  return value as T;
+};
@@ -0,0 +1,185 @@
+import { OcrBlock, ScannedPage } from "../types";
+import { APP_CONFIG } from "../constants";
+import { ServiceError } from "./errors";
+import { getTextDirection } from "./languages";
+import { buildImagePdf } from "./pdfWriter";
+import { openPdf } from "./pdfService";
+import { base64ToBytes } from "../utils/encoding";
+
+// Photos and scanned PDF pages are turned into JPEGs of a bounded size, sent for
+// recognition, and drawn again with the translated text painted over each block.
+
+export type PageImage = Omit<ScannedPage, 'blocks'>;
+
+const MIN_FONT_PX = 6;
+const LINE_HEIGHT = 1.2;
+// Every script the app loads a web font for; canvas falls back glyph by glyph
+const OVERLAY_FONT = "'Inter', 'Noto Sans Arabic', 'Noto Sans Devanagari', 'Noto Sans Thai', sans-serif";
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+const canvasToJpeg = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/jpeg', APP_CONFIG.OCR_JPEG_QUALITY);
+
+const fitScale = (width: number, height: number) => Math.min(1, APP_CONFIG.OCR_MAX_IMAGE_PX / Math.max(width, height));
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Phone photos are downscaled; createImageBitmap applies their EXIF rotation
+export const loadImagePage = async (file: File): Promise<PageImage> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new ServiceError('unsupported_file', 'This image could not be opened. Upload a PNG, JPEG or WebP image.');
+  }
+  const scale = fitScale(bitmap.width, bitmap.height);
+  const canvas = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return { image: canvasToJpeg(canvas), width: canvas.width, height: canvas.height };
+};
+
+// Renders every page of a scanned PDF; PDFs with a text layer are translated as text instead
+export const loadScannedPdfPages = async (data: ArrayBuffer): Promise<PageImage[]> => {
+  const pdf = await openPdf(data);
+  try {
+    if (pdf.numPages > APP_CONFIG.OCR_MAX_PAGES) {
+      throw new ServiceError('unsupported_file', `Scanned PDFs can have at most ${APP_CONFIG.OCR_MAX_PAGES} pages. Split the file and upload the parts separately.`);
+    }
+
+    const pages: PageImage[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const base = page.getViewport({ scale: 1 });
+      // Scans are usually stored at 150-300 dpi, so pages are rendered larger than 72 dpi
+      const viewport = page.getViewport({ scale: APP_CONFIG.OCR_MAX_IMAGE_PX / Math.max(base.width, base.height) });
+      const canvas = createCanvas(Math.round(viewport.width), Math.round(viewport.height));
+      await page.render({ canvas, canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      pages.push({ image: canvasToJpeg(canvas), width: canvas.width, height: canvas.height });
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load page image'));
+    image.src = src;
+  });
+
+// Median colour along the edge of the box, which is the background the text sits on
+const sampleBackground = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => {
+  const { data } = ctx.getImageData(x, y, width, height);
+  const channels: number[][] = [[], [], []];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (row !== 0 && row !== height - 1 && col !== 0 && col !== width - 1) continue;
+      const offset = (row * width + col) * 4;
+      for (let c = 0; c < 3; c++) channels[c].push(data[offset + c]);
+    }
+  }
+  const [r, g, b] = channels.map(values => values.sort((a, b) => a - b)[Math.floor(values.length / 2)] ?? 255);
+  return { r, g, b };
+};
+
+// Greedy line breaking; text without spaces (Chinese, Japanese, Thai) and
+// words wider than the box break between characters
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    const tokens = paragraph.match(/\S+\s*/g) || [''];
+    tokens.flatMap(token => (ctx.measureText(token.trimEnd()).width > maxWidth ? Array.from(token) : [token])).forEach(token => {
+      if (line && ctx.measureText((line + token).trimEnd()).width > maxWidth) {
+        lines.push(line.trimEnd());
+        line = token.trimStart();
+      } else {
+        line += token;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// Covers the original text with its background colour and writes the
+// translation in the largest font that fits the box
+const paintBlock = (ctx: CanvasRenderingContext2D, block: OcrBlock, direction: CanvasDirection) => {
+  const { width: pageWidth, height: pageHeight } = ctx.canvas;
+  const x = Math.max(0, Math.floor(block.box.x * pageWidth));
+  const y = Math.max(0, Math.floor(block.box.y * pageHeight));
+  const width = Math.min(pageWidth - x, Math.ceil(block.box.width * pageWidth));
+  const height = Math.min(pageHeight - y, Math.ceil(block.box.height * pageHeight));
+  if (width < 2 || height < 2) return;
+
+  const background = sampleBackground(ctx, x, y, width, height);
+  ctx.fillStyle = `rgb(${background.r}, ${background.g}, ${background.b})`;
+  ctx.fillRect(x, y, width, height);
+
+  const luminance = (0.299 * background.r + 0.587 * background.g + 0.114 * background.b) / 255;
+  ctx.fillStyle = luminance > 0.5 ? '#111827' : '#ffffff';
+
+  // Text that doesn't fit even at the smallest size is squeezed horizontally by fillText
+  let fontSize = Math.max(MIN_FONT_PX, Math.floor(height / LINE_HEIGHT));
+  let lines: string[];
+  for (;; fontSize--) {
+    ctx.font = `${fontSize}px ${OVERLAY_FONT}`;
+    lines = wrapText(ctx, block.translatedText, width);
+    const fits = lines.length * fontSize * LINE_HEIGHT <= height && lines.every(line => ctx.measureText(line).width <= width);
+    if (fits || fontSize === MIN_FONT_PX) break;
+  }
+
+  ctx.direction = direction;
+  ctx.textAlign = 'start';
+  ctx.textBaseline = 'middle';
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const top = y + (height - lines.length * lineHeight) / 2 + lineHeight / 2;
+  lines.forEach((line, index) => {
+    ctx.fillText(line, direction === 'rtl' ? x + width : x, top + index * lineHeight, width);
+  });
+};
+
+export const renderTranslatedPage = async (page: ScannedPage, targetLang: string) => {
+  const image = await loadImage(page.image);
+  const canvas = createCanvas(page.width, page.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(image, 0, 0, page.width, page.height);
+
+  const text = page.blocks.map(b => b.translatedText).join(' ');
+  if (text) await document.fonts.load(`16px ${OVERLAY_FONT}`, text);
+  const direction = getTextDirection(targetLang) === 'rtl' ? 'rtl' : 'ltr';
+  page.blocks.forEach(block => paintBlock(ctx, block, direction));
+  return canvas;
+};
+
+export const exportPageAsPng = async (page: ScannedPage, targetLang: string) => {
+  const canvas = await renderTranslatedPage(page, targetLang);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png')
+  );
+};
+
+export const exportPagesAsPdf = async (pages: ScannedPage[], targetLang: string) => {
+  const rendered = [];
+  for (const page of pages) {
+    const canvas = await renderTranslatedPage(page, targetLang);
+    rendered.push({ jpeg: base64ToBytes(canvasToJpeg(canvas).split(',')[1]), width: canvas.width, height: canvas.height });
+  }
+  return buildImagePdf(rendered);
+};
+
+// Base64 payload and MIME type of a page image, as sent to translateImage
+export const pageImageData = (page: PageImage) => {
+  const [header, data] = page.image.split(',');
+  return { data, mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg' };
+};
@@ -0,0 +1,144 @@
+import { LanguageDetection, Segment, SegmentTranslation, SegmentUpdate } from "../types";
+import { BLOCK_PLACEHOLDER_PATTERN } from "./placeholders";
+
+// FNV-1a, enough to give identical sentences identical ids across edits
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const splitSentences = (paragraph: string, locale?: string): string[] => {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(paragraph), s => s.segment);
+  }
+  // Fallback for engines without Intl.Segmenter: split after terminal punctuation
+  return paragraph.match(/[^.!?。！？]+[.!?。！？]*\s*|\s+/g) || [paragraph];
+};
+
+// Splits text around fenced code blocks and HTML comments that span lines: even
+// indices are prose and odd indices whole blocks. Blocks within a line stay in the prose.
+export const splitAroundBlocks = (text: string) => {
+  const pieces = [''];
+  text.split(new RegExp(`(${BLOCK_PLACEHOLDER_PATTERN.source})`)).forEach((part, index) => {
+    if (index % 2 === 1 && part.includes('\n')) {
+      pieces.push(part, '');
+    } else {
+      pieces[pieces.length - 1] += part;
+    }
+  });
+  return pieces;
+};
+
+// Splits text into sentence segments. Line breaks always end a segment so
+// paragraph structure survives the round trip through joinSegments; multi-line
+// code blocks and comments are a segment of their own.
+export const segmentText = (text: string, locale?: string): Segment[] => {
+  const segments: Segment[] = [];
+  const occurrences: Record<string, number> = {};
+  const segmenterLocale = locale && locale !== 'auto' ? locale : undefined;
+
+  const addTrailing = (whitespace: string) => {
+    if (segments.length > 0) segments[segments.length - 1].trailing += whitespace;
+  };
+  const addSegment = (content: string, trailing: string) => {
+    const hash = hashText(content);
+    occurrences[hash] = (occurrences[hash] || 0) + 1;
+    segments.push({ id: `s${hash}_${occurrences[hash]}`, text: content, trailing });
+  };
+
+  splitAroundBlocks(text).forEach((piece, pieceIndex) => {
+    if (pieceIndex % 2 === 1) {
+      addSegment(piece, '');
+      return;
+    }
+    // Whitespace between a block and the prose after it
+    const prose = piece.trimStart();
+    addTrailing(piece.slice(0, piece.length - prose.length));
+
+    prose.split(/(\r?\n\s*)/).forEach((part, index) => {
+      // Odd indices are the captured line breaks
+      if (index % 2 === 1) {
+        addTrailing(part);
+        return;
+      }
+
+      splitSentences(part, segmenterLocale).forEach(sentence => {
+        const content = sentence.trim();
+        if (!content) {
+          addTrailing(sentence);
+          return;
+        }
+        addSegment(content, sentence.slice(sentence.trimEnd().length));
+      });
+    });
+  });
+
+  return segments;
+};
+
+// Packs whole sentences into chunks of at most maxChars. Sentences longer than
+// that are cut at the last space before the limit, or hard cut without one.
+export const splitIntoChunks = (text: string, maxChars: number, locale?: string) => {
+  const pieces: string[] = [];
+  segmentText(text, locale).forEach(segment => {
+    let sentence = segment.text;
+    while (sentence.length > maxChars) {
+      const space = sentence.lastIndexOf(' ', maxChars);
+      const cut = space > 0 ? space : maxChars;
+      pieces.push(sentence.slice(0, cut).trim());
+      sentence = sentence.slice(cut).trim();
+    }
+    if (sentence) pieces.push(sentence);
+  });
+
+  const chunks: string[] = [];
+  pieces.forEach(piece => {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + 1 + piece.length <= maxChars) {
+      chunks[chunks.length - 1] = `${last} ${piece}`;
+    } else {
+      chunks.push(piece);
+    }
+  });
+  return chunks;
+};
+
+export const joinSegments = (
+  segments: Segment[],
+  translations: Record<string, SegmentTranslation | undefined>
+) => segments.map(s => (translations[s.id]?.target || '') + s.trailing).join('').trimEnd();
+
+// Wire format used to translate several segments in one request while keeping them aligned
+export const markSegments = (segments: Pick<Segment, 'id' | 'text'>[]) =>
+  segments.map(s => `<seg id="${s.id}">${s.text}</seg>`).join('\n');
+
+// Parses a (possibly partial) streamed response in the markSegments format
+export const parseMarkedSegments = (buffer: string): SegmentUpdate[] => {
+  const updates: SegmentUpdate[] = [];
+  const pattern = /<seg id="([^"]+)">([\s\S]*?)(<\/seg>|$)/g;
+  for (const match of buffer.matchAll(pattern)) {
+    const done = match[3] === '</seg>';
+    // Drop a closing tag that is still arriving, e.g. "Hola</se"
+    const text = done ? match[2] : match[2].replace(/<\/?[a-z]*$/i, '');
+    updates.push({ id: match[1], text: text.trim(), done });
+    if (!done) break;
+  }
+  return updates;
+};
+
+// Auto-detect responses open with <meta lang="es" confidence="0.92"/> before the segments.
+// Returns null until the whole tag has arrived, or when the response started without one.
+export const parseStreamMetadata = (buffer: string): LanguageDetection | null => {
+  const match = buffer.trimStart().match(/^<meta\s+lang="([^"]*)"\s+confidence="([^"]*)"\s*\/?>/);
+  if (!match) return null;
+  const confidence = parseFloat(match[2]);
+  return {
+    language: match[1].trim(),
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0
+  };
+};
@@ -0,0 +1,107 @@
+import { SpeechOptions, SpeechSettings, SpeechStyle, TranslationProvider } from "../types";
+import { APP_CONFIG, SUPPORTED_LANGUAGES } from "../constants";
+import { splitIntoChunks } from "./segmentation";
+
+const STORAGE_KEY = 'lingoai_speech_settings';
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voices: {},
+  rate: 1,
+  style: 'natural'
+};
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    return { ...DEFAULT_SPEECH_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getVoiceForLanguage = (settings: SpeechSettings, language: string) =>
+  settings.voices[language] || APP_CONFIG.TTS_DEFAULT_VOICE;
+
+export const getSpeechOptions = (settings: SpeechSettings, language: string): SpeechOptions => ({
+  voice: getVoiceForLanguage(settings, language),
+  rate: settings.rate,
+  style: settings.style,
+  language: language && language !== 'auto' ? language : undefined
+});
+
+const STYLE_DIRECTIONS: Record<SpeechStyle, string> = {
+  natural: 'clearly and naturally',
+  cheerful: 'in a cheerful, friendly voice',
+  calm: 'in a calm, soothing voice',
+  serious: 'in a serious, measured voice',
+  storytelling: 'like a storyteller, with expressive pacing'
+};
+
+// Gemini TTS takes delivery instructions as part of the prompt
+export const formatSpeechPrompt = (text: string, options: SpeechOptions) => {
+  const directions = [STYLE_DIRECTIONS[options.style]];
+  if (options.rate < 1) directions.push('at a slow pace');
+  if (options.rate > 1) directions.push('at a brisk pace');
+  const languageName = SUPPORTED_LANGUAGES.find(l => l.code === options.language)?.name;
+  if (languageName) directions.push(`with natural ${languageName} pronunciation`);
+  return `Say ${directions.join(', ')}: ${text}`;
+};
+
+// Yields one PCM buffer per chunk in order, requesting the next chunk while the
+// caller is still busy with the current one
+export async function* synthesizeSpeech(
+  text: string,
+  options: SpeechOptions,
+  provider: TranslationProvider,
+  signal?: AbortSignal
+): AsyncGenerator<ArrayBuffer> {
+  const chunks = splitIntoChunks(text, APP_CONFIG.TTS_CHUNK_CHARS, options.language);
+  let next = chunks.length > 0 ? provider.generateSpeech(chunks[0], options) : null;
+  for (let i = 0; next; i++) {
+    const current = next;
+    next = i + 1 < chunks.length ? provider.generateSpeech(chunks[i + 1], options) : null;
+    // Keep an abandoned prefetch from surfacing as an unhandled rejection
+    next?.catch(() => {});
+    const pcm = await current;
+    if (signal?.aborted) return;
+    yield pcm;
+  }
+}
+
+export const speechCacheKey = (text: string, options: SpeechOptions) =>
+  JSON.stringify([text, options.voice, options.rate, options.style, options.language || '']);
+
+// RIFF/WAVE container around 16-bit mono PCM chunks
+export const encodeWav = (chunks: ArrayBuffer[], sampleRate: number = APP_CONFIG.TTS_SAMPLE_RATE) => {
+  const dataLength = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  const bytes = new Uint8Array(buffer);
+  let offset = 44;
+  chunks.forEach(chunk => {
+    bytes.set(new Uint8Array(chunk), offset);
+    offset += chunk.byteLength;
+  });
+  return buffer;
+};
@@ -0,0 +1,128 @@
+import { Segment, SubtitleBlock, SubtitleCue, SubtitleDocument, SubtitleFormat } from "../types";
+import { APP_CONFIG } from "../constants";
+
+// SRT and WebVTT parsing/serialization. Only cue text is translatable; indices,
+// timestamps, cue settings and WebVTT metadata blocks are written back as-is.
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt'
+};
+
+export const subtitleFormatFromFileName = (fileName: string | null): SubtitleFormat | null => {
+  const match = fileName?.match(/\.(srt|vtt)$/i);
+  return match ? (match[1].toLowerCase() as SubtitleFormat) : null;
+};
+
+const VERBATIM_VTT_BLOCK = /^(WEBVTT|NOTE|STYLE|REGION)(\s|$)/;
+
+export const parseSubtitles = (text: string, format: SubtitleFormat): SubtitleDocument => {
+  const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+  const blocks: SubtitleBlock[] = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n(?:[ \t]*\n)+/)
+    .map(block => block.replace(/^\n+|\s+$/g, ''))
+    .filter(Boolean)
+    .map((block): SubtitleBlock => {
+      if (format === 'vtt' && VERBATIM_VTT_BLOCK.test(block)) return { kind: 'verbatim', text: block };
+
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex(line => line.includes('-->'));
+      // Anything that is not a cue is kept rather than dropped
+      if (timingIndex === -1) return { kind: 'verbatim', text: block };
+
+      return {
+        kind: 'cue',
+        identifier: timingIndex > 0 ? lines.slice(0, timingIndex).join('\n') : undefined,
+        timing: lines[timingIndex],
+        lines: lines.slice(timingIndex + 1)
+      };
+    });
+
+  if (format === 'vtt' && !(blocks[0]?.kind === 'verbatim' && blocks[0].text.startsWith('WEBVTT'))) {
+    throw new Error('This file is not a valid WebVTT file (missing WEBVTT header).');
+  }
+  if (!blocks.some(block => block.kind === 'cue')) {
+    throw new Error('No subtitle cues were found in this file.');
+  }
+
+  return { format, blocks, lineEnding };
+};
+
+const cues = (doc: SubtitleDocument) => doc.blocks.filter((block): block is SubtitleCue => block.kind === 'cue');
+
+const cueId = (index: number) => `c${index}`;
+
+// Lines starting with a dash mark a speaker change and must stay on their own line
+const isDialogue = (cue: SubtitleCue) => cue.lines.length > 1 && cue.lines.every(line => line.startsWith('-'));
+
+// Line breaks inside a cue are layout, not meaning, so cues are translated as one
+// sentence and re-wrapped to the target line length afterwards
+export const getSubtitleSegments = (doc: SubtitleDocument): Segment[] =>
+  cues(doc)
+    .map((cue, index) => ({
+      id: cueId(index),
+      text: cue.lines.map(line => line.trim()).join(isDialogue(cue) ? '\n' : ' ').trim(),
+      trailing: ''
+    }))
+    .filter(segment => segment.text);
+
+// Formatting tags such as <i> or {\an8} do not take up screen space
+const visibleLength = (text: string) => Array.from(text.replace(/<[^>]*>|\{\\[^}]*\}/g, '')).length;
+
+const wrapLine = (line: string, maxChars: number): string[] => {
+  if (visibleLength(line) <= maxChars) return [line];
+
+  const words = line.split(/\s+/);
+  if (words.length === 1) {
+    // Scripts written without spaces are broken by character
+    const chars = Array.from(line);
+    const lines: string[] = [];
+    for (let i = 0; i < chars.length; i += maxChars) lines.push(chars.slice(i, i + maxChars).join(''));
+    return lines;
+  }
+
+  const lines: string[] = [];
+  let current = '';
+  words.forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && visibleLength(candidate) > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+
+  // Two-line cues read better with lines of similar length
+  if (lines.length === 2) {
+    let best = lines;
+    for (let i = 1; i < words.length; i++) {
+      const split = [words.slice(0, i).join(' '), words.slice(i).join(' ')];
+      const longest = Math.max(...split.map(visibleLength));
+      if (longest <= maxChars && longest < Math.max(...best.map(visibleLength))) best = split;
+    }
+    return best;
+  }
+  return lines;
+};
+
+export const wrapSubtitleText = (text: string, maxChars: number = APP_CONFIG.SUBTITLE_CHARS_PER_LINE) =>
+  text.split('\n').map(line => line.trim()).filter(Boolean).flatMap(line => wrapLine(line, maxChars));
+
+export const serializeSubtitles = (
+  doc: SubtitleDocument,
+  translations: Record<string, string> = {},
+  maxChars: number = APP_CONFIG.SUBTITLE_CHARS_PER_LINE
+) => {
+  let index = 0;
+  const blocks = doc.blocks.map(block => {
+    if (block.kind === 'verbatim') return block.text;
+    const translated = translations[cueId(index++)];
+    const lines = translated !== undefined ? wrapSubtitleText(translated, maxChars) : block.lines;
+    return [...(block.identifier !== undefined ? [block.identifier] : []), block.timing, ...lines].join('\n');
+  });
+  return (blocks.join('\n\n') + '\n').replace(/\n/g, doc.lineEnding);
+};
@@ -0,0 +1,214 @@
+import { TranslationMemoryEntry, TranslationMemoryMatch, TranslationStyle, GlossaryTerm } from "../types";
+import { APP_CONFIG } from "../constants";
+import { escapeXml, parseXml, getXmlLang } from "../utils/xml";
+import { STORES, getRecord, getRecordsByIndex, getAllRecords, putRecord, putRecords, countRecords } from "./db";
+import { canonicalLanguageTag, getBaseLanguage, toSupportedLanguage } from "./languages";
+import { DEFAULT_TRANSLATION_STYLE, isDefaultStyle, isSameStyle } from "./translationStyle";
+import { checkGlossary } from "./glossary";
+
+export const normalizeSegment = (text: string) =>
+  text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+// Entries are filed under the source's general language, so an en-US entry from a
+// TMX file serves English text, and under the closest supported target language
+const pairKey = (sourceLang: string, targetLang: string) =>
+  `${getBaseLanguage(sourceLang)}|${toSupportedLanguage(targetLang) || targetLang}`;
+
+// Work done with "Detect language" is only kept once its language is known
+const isKnownLanguage = (lang: string) => !!lang && lang !== 'auto';
+
+const entryKey = (sourceLang: string, targetLang: string, segment: string) =>
+  `${pairKey(sourceLang, targetLang)}|${normalizeSegment(segment)}`;
+
+const createEntry = (
+  sourceText: string,
+  targetText: string,
+  sourceLang: string,
+  targetLang: string,
+  style?: TranslationStyle,
+  timestamp: number = Date.now()
+): TranslationMemoryEntry => ({
+  id: entryKey(sourceLang, targetLang, sourceText),
+  pair: pairKey(sourceLang, targetLang),
+  sourceLang,
+  targetLang,
+  sourceText: normalizeSegment(sourceText),
+  targetText: targetText.trim(),
+  ...(style && !isDefaultStyle(style) ? { style } : {}),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+// Levenshtein distance with a single rolling row
+const editDistance = (a: string, b: string) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+export const similarity = (a: string, b: string) => {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - editDistance(a, b) / maxLength;
+};
+
+export const lookupExact = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string
+): Promise<TranslationMemoryEntry | null> => {
+  if (!isKnownLanguage(sourceLang)) return null;
+  const entry = await getRecord<TranslationMemoryEntry>(
+    STORES.TRANSLATION_MEMORY,
+    entryKey(sourceLang, targetLang, text)
+  );
+  return entry || null;
+};
+
+// An exact match is served instead of a new translation only when it was made in
+// the current style and already follows the current glossary
+export const isReusableEntry = (entry: TranslationMemoryEntry, style: TranslationStyle, glossary: GlossaryTerm[]) =>
+  isSameStyle(entry.style || DEFAULT_TRANSLATION_STYLE, style) &&
+  checkGlossary(entry.sourceText, entry.targetText, glossary).length === 0;
+
+export const findFuzzyMatches = async (
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  minScore: number = APP_CONFIG.TM_FUZZY_THRESHOLD,
+  limit: number = 3
+): Promise<TranslationMemoryMatch[]> => {
+  const segment = normalizeSegment(text);
+  if (!segment || !isKnownLanguage(sourceLang)) return [];
+
+  const candidates = await getRecordsByIndex<TranslationMemoryEntry>(
+    STORES.TRANSLATION_MEMORY,
+    'pair',
+    pairKey(sourceLang, targetLang)
+  );
+
+  return candidates
+    // Skip candidates whose length alone rules out reaching the threshold
+    .filter(entry => Math.min(entry.sourceText.length, segment.length) / Math.max(entry.sourceText.length, segment.length) >= minScore)
+    .map(entry => ({ entry, score: similarity(segment, entry.sourceText) }))
+    .filter(match => match.score >= minScore && match.score < 1)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+export const addTranslationMemoryEntry = async (
+  sourceText: string,
+  targetText: string,
+  sourceLang: string,
+  targetLang: string,
+  style?: TranslationStyle
+) => {
+  if (!normalizeSegment(sourceText) || !targetText.trim() || !isKnownLanguage(sourceLang)) return;
+  const existing = await lookupExact(sourceText, sourceLang, targetLang);
+  const entry = createEntry(sourceText, targetText, sourceLang, targetLang, style);
+  if (existing) entry.createdAt = existing.createdAt;
+  await putRecord(STORES.TRANSLATION_MEMORY, entry);
+};
+
+// Documents are stored paragraph by paragraph when source and translation line up,
+// otherwise as a single segment so the work is still reusable.
+export const addDocumentToTranslationMemory = async (
+  sourceText: string,
+  targetText: string,
+  sourceLang: string,
+  targetLang: string,
+  style?: TranslationStyle
+) => {
+  if (!isKnownLanguage(sourceLang)) return;
+  const splitParagraphs = (text: string) => text.split(/\n\s*\n|\r?\n/).map(p => p.trim()).filter(Boolean);
+  const sourceParagraphs = splitParagraphs(sourceText);
+  const targetParagraphs = splitParagraphs(targetText);
+
+  const entries = sourceParagraphs.length === targetParagraphs.length
+    ? sourceParagraphs.map((p, i) => createEntry(p, targetParagraphs[i], sourceLang, targetLang, style))
+    : [createEntry(sourceText, targetText, sourceLang, targetLang, style)];
+
+  await putRecords(STORES.TRANSLATION_MEMORY, entries.filter(e => e.sourceText && e.targetText));
+};
+
+// Already aligned pairs, e.g. subtitle cues or localization strings
+export const addTranslationPairsToMemory = async (
+  pairs: { source: string; target: string }[],
+  sourceLang: string,
+  targetLang: string,
+  style?: TranslationStyle
+) => {
+  if (!isKnownLanguage(sourceLang)) return;
+  const entries = pairs.map(p => createEntry(p.source, p.target, sourceLang, targetLang, style));
+  await putRecords(STORES.TRANSLATION_MEMORY, entries.filter(e => e.sourceText && e.targetText));
+};
+
+export const countTranslationMemoryEntries = () => countRecords(STORES.TRANSLATION_MEMORY);
+
+// TMX 1.4 import/export
+
+const toTmxDate = (timestamp: number) =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const fromTmxDate = (value: string | null) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return Date.now();
+  const [, y, mo, d, h, mi, s] = match;
+  return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+};
+
+export const exportTMX = async (): Promise<string> => {
+  // An entry without a known source language has no valid xml:lang to export under
+  const entries = (await getAllRecords<TranslationMemoryEntry>(STORES.TRANSLATION_MEMORY))
+    .filter(entry => isKnownLanguage(entry.sourceLang));
+  const units = entries.map(entry => `    <tu creationdate="${toTmxDate(entry.createdAt)}" changedate="${toTmxDate(entry.updatedAt)}">
+      <tuv xml:lang="${escapeXml(entry.sourceLang)}"><seg>${escapeXml(entry.sourceText)}</seg></tuv>
+      <tuv xml:lang="${escapeXml(entry.targetLang)}"><seg>${escapeXml(entry.targetText)}</seg></tuv>
+    </tu>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="${APP_CONFIG.NAME}" creationtoolversion="1.0" segtype="sentence" o-tmf="${APP_CONFIG.NAME}" adminlang="en" srclang="*all*" datatype="plaintext"/>
+  <body>
+${units.join('\n')}
+  </body>
+</tmx>
+`;
+};
+
+export const importTMX = async (xml: string): Promise<number> => {
+  const doc = parseXml(xml, 'Invalid TMX file.');
+
+  const headerSrcLang = doc.getElementsByTagName('header')[0]?.getAttribute('srclang');
+  const entries: TranslationMemoryEntry[] = [];
+
+  Array.from(doc.getElementsByTagName('tu')).forEach(tu => {
+    const variants = Array.from(tu.getElementsByTagName('tuv')).map(tuv => ({
+      lang: canonicalLanguageTag(getXmlLang(tuv)),
+      text: tuv.getElementsByTagName('seg')[0]?.textContent || ''
+    })).filter(v => v.lang && v.text.trim());
+    if (variants.length < 2) return;
+
+    const tuSrcLang = tu.getAttribute('srclang') || headerSrcLang;
+    const source = variants.find(v => tuSrcLang && tuSrcLang !== '*all*' && v.lang === canonicalLanguageTag(tuSrcLang.toLowerCase())) || variants[0];
+    const timestamp = fromTmxDate(tu.getAttribute('creationdate'));
+
+    variants
+      .filter(v => v !== source)
+      .forEach(target => entries.push(createEntry(source.text, target.text, source.lang, target.lang, undefined, timestamp)));
+  });
+
+  await putRecords(STORES.TRANSLATION_MEMORY, entries);
+  return entries.length;
+};
@@ -0,0 +1,15 @@
+import { TranslationProvider, TranslationProviderId } from "../types";
+import { APP_CONFIG } from "../constants";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockService";
+
+const PROVIDERS: Record<TranslationProviderId, TranslationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const getTranslationProvider = (id: TranslationProviderId = APP_CONFIG.PROVIDER): TranslationProvider => {
+  const provider = PROVIDERS[id];
+  if (!provider) throw new Error(`Unknown translation provider: ${id}`);
+  return provider;
+};
@@ -0,0 +1,79 @@
+import { TranslationStyle } from "../types";
+import { FORMALITY_FORMS } from "../constants";
+import { getBaseLanguage } from "./languages";
+
+const STORAGE_KEY = 'lingoai_translation_styles';
+
+export const DEFAULT_TRANSLATION_STYLE: TranslationStyle = {
+  formality: 'default',
+  tone: 'neutral',
+  domain: 'general'
+};
+
+export const stylePairKey = (sourceLang: string, targetLang: string) => `${sourceLang}|${targetLang}`;
+
+export const isSameStyle = (a: TranslationStyle, b: TranslationStyle) =>
+  a.formality === b.formality && a.tone === b.tone && a.domain === b.domain;
+
+export const isDefaultStyle = (style: TranslationStyle) => isSameStyle(style, DEFAULT_TRANSLATION_STYLE);
+
+export const loadPairStyles = (): Record<string, TranslationStyle> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Pairs left at the default style are dropped so the stored map stays small
+export const savePairStyles = (styles: Record<string, TranslationStyle>) => {
+  const stored = Object.fromEntries(Object.entries(styles).filter(([, style]) => !isDefaultStyle(style)));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+// A style saved for a specific source language wins over the one saved for auto-detect
+export const getPairStyle = (
+  styles: Record<string, TranslationStyle>,
+  sourceLang: string,
+  targetLang: string
+): TranslationStyle =>
+  styles[stylePairKey(sourceLang, targetLang)] ||
+  styles[stylePairKey('auto', targetLang)] ||
+  DEFAULT_TRANSLATION_STYLE;
+
+const TONE_INSTRUCTIONS: Record<TranslationStyle['tone'], string> = {
+  neutral: 'Use a neutral, natural tone.',
+  marketing: 'Use a persuasive, engaging marketing tone that reads as if written natively; adapt idioms rather than translating them literally.',
+  casual: 'Use a relaxed, conversational tone.'
+};
+
+const DOMAIN_INSTRUCTIONS: Record<TranslationStyle['domain'], string> = {
+  general: '',
+  legal: 'This is legal text: use precise legal terminology, keep defined terms consistent and never paraphrase obligations or conditions.',
+  medical: 'This is medical text: use standard clinical terminology and keep dosages, units and drug names exact.',
+  technical: 'This is technical documentation: use established technical terminology and keep identifiers, commands and units unchanged.',
+  ui: 'These are user interface strings: keep them short, use the imperative for actions and follow the platform conventions of the target language.'
+};
+
+// Regional variants share their language's forms unless they have their own
+export const getFormalityForms = (targetLang: string) =>
+  FORMALITY_FORMS[targetLang] || FORMALITY_FORMS[getBaseLanguage(targetLang)];
+
+const formalityInstruction = (formality: TranslationStyle['formality'], targetLang: string) => {
+  if (formality === 'default') return '';
+  const forms = getFormalityForms(targetLang);
+  const register = formality === 'formal' ? 'a formal, polite register' : 'an informal, familiar register';
+  return forms
+    ? `Address the reader in ${register} (${formality === 'formal' ? forms.formal : forms.informal}).`
+    : `Address the reader in ${register}.`;
+};
+
+export const formatStyleForPrompt = (style: TranslationStyle | undefined, targetLang: string) => {
+  const active = style || DEFAULT_TRANSLATION_STYLE;
+  const lines = [
+    formalityInstruction(active.formality, targetLang),
+    TONE_INSTRUCTIONS[active.tone],
+    DOMAIN_INSTRUCTIONS[active.domain]
+  ].filter(Boolean);
+  return `\n    Style guide:\n    ${lines.map(l => `- ${l}`).join('\n    ')}\n`;
+};
@@ -1,14 +1,29 @@
 
 export interface TranslationResult {
   translatedText: string;
+  // Code from SUPPORTED_LANGUAGES ('' if unsupported)
   detectedLanguage: string;
   confidence: number;
 }
 
+export type TextDirection = 'ltr' | 'rtl';
+
 export interface Language {
+  // BCP-47 tag, e.g. 'fr', 'pt-BR' or 'zh-Hant'; 'auto' stands for detection
   code: string;
   name: string;
   native: string;
+  // ISO 15924 code of the script the language is written in
+  script: string;
+  dir: TextDirection;
+  // Regional and script variants point at their general language
+  base?: string;
+}
+
+export interface LanguagePrefs {
+  pinned: string[];
+  // Most recently chosen first
+  recent: string[];
 }
 
 export enum TranslationStatus {
@@ -17,3 +32,314 @@ export enum TranslationStatus {
   SUCCESS = 'success',
   ERROR = 'error'
 }
+
+export type TranslationProviderId = 'gemini' | 'mock';
+
+export interface GlossaryTerm {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  source: string;
+  target: string;
+  doNotTranslate: boolean;
+  caseSensitive: boolean;
+  createdAt: number;
+}
+
+export interface GlossaryViolation {
+  term: GlossaryTerm;
+  expected: string;
+}
+
+export type Formality = 'default' | 'formal' | 'informal';
+
+export type Tone = 'neutral' | 'marketing' | 'casual';
+
+export type Domain = 'general' | 'legal' | 'medical' | 'technical' | 'ui';
+
+export interface TranslationStyle {
+  formality: Formality;
+  tone: Tone;
+  domain: Domain;
+}
+
+export interface LanguageDetection {
+  // Code from SUPPORTED_LANGUAGES, or '' when the language isn't one of them
+  language: string;
+  confidence: number;
+}
+
+export interface TranslationOptions {
+  glossary?: GlossaryTerm[];
+  style?: TranslationStyle;
+  // Called once by streaming translations with source 'auto', as soon as the language is known
+  onDetection?: (detection: LanguageDetection) => void;
+}
+
+export interface Segment {
+  id: string;
+  text: string;
+  // Whitespace that followed the segment in the source, reused when joining translations
+  trailing: string;
+}
+
+export interface SegmentUpdate {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export type SegmentStatus = 'pending' | 'translating' | 'done' | 'error';
+
+export interface SegmentTranslation {
+  id: string;
+  source: string;
+  target: string;
+  status: SegmentStatus;
+  origin: 'provider' | 'memory' | 'manual';
+  fuzzyMatches: TranslationMemoryMatch[];
+}
+
+export interface AlternativesRequest {
+  // Phrase being reconsidered, as it currently reads in the translation
+  phrase: string;
+  // The source sentence and its current translation, for context
+  sourceText: string;
+  targetText: string;
+  count: number;
+}
+
+export interface TranslationAlternative {
+  text: string;
+  // How this variant differs from the current wording
+  explanation: string;
+}
+
+// Position on a page or image as fractions (0-1) of its width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A block of text read from an image: a sign, a form label, a paragraph
+export interface OcrBlock {
+  id: string;
+  sourceText: string;
+  translatedText: string;
+  box: BoundingBox;
+}
+
+// A photo or scanned PDF page with the text found on it
+export interface ScannedPage {
+  // JPEG data URL of the page exactly as it was sent for recognition
+  image: string;
+  width: number;
+  height: number;
+  blocks: OcrBlock[];
+}
+
+export type QualityIssueKind = 'omission' | 'addition' | 'number_mismatch' | 'url_mismatch' | 'untranslated';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  message: string;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SegmentQuality {
+  // 0 (likely wrong) to 1 (no problems found)
+  score: number;
+  issues: QualityIssue[];
+  backTranslation: string | null;
+  // Source against back-translation; null until the back-translation is available
+  diff: DiffPart[] | null;
+}
+
+export interface InterpretationResult {
+  // Which of the two conversation languages the utterance was spoken in
+  spokenLang: string;
+  translatedText: string;
+}
+
+export type SpeechStyle = 'natural' | 'cheerful' | 'calm' | 'serious' | 'storytelling';
+
+export interface SpeechOptions {
+  voice: string;
+  // Relative speaking rate, 1 is normal
+  rate: number;
+  style: SpeechStyle;
+  // Language of the text, so it is pronounced accordingly
+  language?: string;
+}
+
+export interface SpeechSettings {
+  // Chosen voice per language code; languages without one use the default voice
+  voices: Record<string, string>;
+  rate: number;
+  style: SpeechStyle;
+}
+
+export interface TranscriptionCallbacks {
+  // Newly recognised text, in pieces as the speaker goes on
+  onText: (text: string) => void;
+  // The speaker finished an utterance
+  onTurnEnd: () => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+}
+
+export interface TranscriptionSession {
+  // 16 kHz 16-bit mono PCM
+  sendAudio(pcm: Int16Array): void;
+  // Voice activity detection saw the speaker stop
+  endAudio(): void;
+  close(): void;
+}
+
+export interface TranslationProvider {
+  id: TranslationProviderId;
+  translateText(text: string, sourceLang: string, targetLang: string, options?: TranslationOptions): Promise<TranslationResult>;
+  translateTextStream(text: string, sourceLang: string, targetLang: string, options?: TranslationOptions): AsyncGenerator<string>;
+  translateSegmentsStream(segments: Pick<Segment, 'id' | 'text'>[], sourceLang: string, targetLang: string, options?: TranslationOptions): AsyncGenerator<SegmentUpdate>;
+  // Translates one chunk of a document's paragraphs in a single request; translations are keyed by segment id
+  translateDocument(segments: Pick<Segment, 'id' | 'text'>[], sourceLang: string, targetLang: string, options?: TranslationOptions): Promise<Record<string, string>>;
+  // Reads the text of a photo or scanned page and translates it block by block
+  translateImage(base64Data: string, mimeType: string, sourceLang: string, targetLang: string, options?: TranslationOptions): Promise<OcrBlock[]>;
+  suggestAlternatives(request: AlternativesRequest, sourceLang: string, targetLang: string, options?: TranslationOptions): Promise<TranslationAlternative[]>;
+  interpretUtterance(text: string, languages: [string, string], options?: TranslationOptions): Promise<InterpretationResult>;
+  // Adds punctuation, casing and sentence breaks to a speech transcript without changing its words
+  punctuateTranscript(text: string, language: string): Promise<string>;
+  generateSpeech(text: string, options?: SpeechOptions): Promise<ArrayBuffer>;
+  // Live speech-to-text for voice input, conversation and dictation
+  startTranscription(callbacks: TranscriptionCallbacks): Promise<TranscriptionSession>;
+}
+
+export interface TranslationMemoryEntry {
+  id: string;
+  pair: string;
+  sourceLang: string;
+  targetLang: string;
+  sourceText: string;
+  targetText: string;
+  // Style the translation was made in; entries imported from TMX have none and count as the default
+  style?: TranslationStyle;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry;
+  score: number;
+}
+
+export interface TranslationHistoryEntry {
+  id: string;
+  sourceText: string;
+  targetText: string;
+  sourceLang: string;
+  targetLang: string;
+  // Filled when the source language was auto-detected
+  detectedLang: string;
+  confidence: number;
+  favorite: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MultiTargetResult {
+  lang: string;
+  text: string;
+  status: 'pending' | 'translating' | 'done' | 'error';
+  error?: string;
+}
+
+export type DocumentChunkStatus = 'pending' | 'translating' | 'done' | 'failed';
+
+export interface DocumentChunk {
+  index: number;
+  segmentIds: string[];
+  status: DocumentChunkStatus;
+  attempts: number;
+  error?: string;
+}
+
+export type DocumentJobKind = 'text' | 'docx' | 'subtitles' | 'localization';
+
+export type DocumentJobStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+export interface DocumentJob {
+  id: string;
+  fileName: string;
+  kind: DocumentJobKind;
+  sourceLang: string;
+  targetLang: string;
+  status: DocumentJobStatus;
+  // Paragraph segments; trailing holds the original line breaks for text jobs
+  segments: Segment[];
+  chunks: DocumentChunk[];
+  translations: Record<string, string>;
+  // Original upload, kept so structured formats can be rebuilt after a reload
+  file?: Blob;
+  sourceText: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  kind: 'cue';
+  // SRT index or optional WebVTT cue identifier, written back unchanged
+  identifier?: string;
+  // Timing line including any WebVTT cue settings
+  timing: string;
+  lines: string[];
+}
+
+// WebVTT header, NOTE, STYLE and REGION blocks are carried through verbatim
+export interface SubtitleVerbatimBlock {
+  kind: 'verbatim';
+  text: string;
+}
+
+export type SubtitleBlock = SubtitleCue | SubtitleVerbatimBlock;
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  blocks: SubtitleBlock[];
+  lineEnding: '\n' | '\r\n';
+}
+
+export type LocalizationFormat = 'i18next' | 'po' | 'xliff' | 'android' | 'ios';
+
+export type ConversationTurnStatus = 'translating' | 'speaking' | 'done' | 'error';
+
+export interface ConversationTurn {
+  id: string;
+  // Empty until the spoken language has been identified
+  spokenLang: string;
+  targetLang: string;
+  original: string;
+  translated: string;
+  status: ConversationTurnStatus;
+  error?: string;
+  createdAt: number;
+}
+
+export interface DictationUtterance {
+  id: string;
+  // Offsets (ms) from the start of the recording
+  start: number;
+  end: number;
+  // Transcription as received
+  raw: string;
+  // Cleaned-up text, or the user's correction once edited
+  text: string;
+  edited: boolean;
+}
@@ -0,0 +1,14 @@
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string = 'text/plain') => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const baseFileName = (fileName: string | null, fallback: string = 'document') =>
+  fileName?.replace(/\.[^.]+$/, '') || fallback;
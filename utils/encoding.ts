@@ -0,0 +1,146 @@
+// UTF-8 safe base64 helpers. btoa/atob only handle Latin-1, so text is always
+// converted to bytes first.
+
+const CHUNK_SIZE = 0x8000;
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export interface DecodedText {
+  text: string;
+  encoding: string;
+}
+
+const tryDecode = (bytes: Uint8Array, encoding: string, fatal: boolean = false) => {
+  try {
+    return new TextDecoder(encoding, { fatal }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+// UTF-16 without a BOM shows up as a NUL byte in every other position
+const guessUtf16 = (bytes: Uint8Array) => {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const half = sample.length / 2;
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+};
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length || 0;
+
+const NON_ASCII = /[^\x00-\x7F]/g;
+
+// Kana and CJK punctuation are what Japanese text is made of; kanji alone are also
+// what two random high bytes decode to, so text without any kana counts for half
+const JAPANESE_CHARS = /[\u3000-\u30FF\u4E00-\u9FFF\uFF01-\uFF5E]/g;
+const KANA = /[\u3040-\u30FF]|[\uFF66-\uFF9D]{2}/;
+// Half-width katakana come in runs; a lone one is a byte pair split the wrong way
+const HALF_WIDTH_KANA_RUNS = /[\uFF61-\uFF9F]{2,}/g;
+const ISOLATED_HALF_WIDTH_KANA = /(?<![\uFF61-\uFF9F])[\uFF61-\uFF9F](?![\uFF61-\uFF9F])/g;
+
+const scoreShiftJis = (text: string) => {
+  const total = count(text, NON_ASCII);
+  if (total === 0) return 0;
+  const japanese = count(text, JAPANESE_CHARS) + (text.match(HALF_WIDTH_KANA_RUNS) || []).join('').length;
+  const broken = count(text, ISOLATED_HALF_WIDTH_KANA) + count(text, /\uFFFD/g);
+  const score = (japanese - 2 * broken) / total;
+  return KANA.test(text) ? score : score / 2;
+};
+
+// Shift_JIS lead bytes 0x81-0x9F read as 1251 are mostly punctuation, which then sits
+// glued between the letters its trail bytes became ("こんにちは" reads "‚±‚с‚Й‚ї‚Н")
+const WEDGED_PUNCTUATION = /(?<=\S)[\u201A\u201E\u2026\u2020\u2021\u20AC\u2030\u2039\u203A\u2018\u2019\u201C\u201D\u2022\u2013\u2014\u2122](?=[^\x00-\x7F])/g;
+
+// Latin text misread as 1251 still has some Cyrillic letters ("été" becomes "йtй"),
+// so Cyrillic has to be most of the letters before it counts
+const scoreCyrillic = (text: string) => {
+  const letters = count(text, /\p{L}/gu);
+  if (letters === 0) return 0;
+  const cyrillic = (count(text, /[\u0400-\u04FF]/g) - 2 * count(text, WEDGED_PUNCTUATION)) / letters;
+  return cyrillic > 0.5 ? cyrillic : 0;
+};
+
+// Western European accents sit inside otherwise plain Latin words ("Café", "Größe");
+// Cyrillic or Japanese bytes read as 1252 give runs of accented letters instead
+const WESTERN_LETTERS = /[\u00C0-\u00FF\u0152\u0153\u0160\u0161\u0178\u017D\u017E]/;
+const WESTERN_PUNCTUATION = /[\u20AC\u2018\u2019\u201C\u201D\u2013\u2014\u2026\u00AB\u00BB\u00B0\u00A3\u00A7\u00A9\u00AE\u00A0]/;
+
+const scoreWestern = (text: string) => {
+  const chars = Array.from(text);
+  let total = 0;
+  let evidence = 0;
+  chars.forEach((char, i) => {
+    if (char.charCodeAt(0) < 0x80) return;
+    total++;
+    if (WESTERN_PUNCTUATION.test(char)) {
+      evidence++;
+    } else if (WESTERN_LETTERS.test(char) && (/[A-Za-z]/.test(chars[i - 1] || '') || /[A-Za-z]/.test(chars[i + 1] || ''))) {
+      evidence++;
+    }
+  });
+  return total === 0 ? 0 : evidence / total;
+};
+
+// Legacy single/double byte encodings decode without errors, so candidates are
+// scored by how much of the output looks like the script they are meant for.
+const LEGACY_CANDIDATES: { encoding: string; score: (text: string) => number }[] = [
+  { encoding: 'windows-1252', score: scoreWestern },
+  { encoding: 'windows-1251', score: scoreCyrillic },
+  { encoding: 'shift_jis', score: scoreShiftJis }
+];
+
+export const decodeTextFile = (buffer: ArrayBuffer): DecodedText => {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  const utf16 = guessUtf16(bytes);
+  if (utf16) return { text: new TextDecoder(utf16).decode(bytes), encoding: utf16 };
+
+  const utf8 = tryDecode(bytes, 'utf-8', true);
+  if (utf8 !== null) return { text: utf8, encoding: 'utf-8' };
+
+  const best = LEGACY_CANDIDATES
+    .map(candidate => ({ candidate, text: tryDecode(bytes, candidate.encoding) }))
+    .filter((result): result is { candidate: typeof LEGACY_CANDIDATES[number]; text: string } => result.text !== null)
+    .map(result => ({ ...result, score: result.candidate.score(result.text) }))
+    .sort((a, b) => b.score - a.score)[0];
+
+  if (!best) {
+    return { text: new TextDecoder('utf-8').decode(bytes), encoding: 'utf-8' };
+  }
+  return { text: best.text, encoding: best.candidate.encoding };
+};
@@ -0,0 +1,25 @@
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Text content only needs &, < and > escaped; quotes are left readable
+export const escapeXmlText = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+export const parseXml = (xml: string, errorMessage: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(errorMessage);
+  }
+  return doc;
+};
+
+// Reads xml:lang, falling back to the legacy unprefixed attribute
+export const getXmlLang = (el: Element) =>
+  (el.getAttribute('xml:lang') || el.getAttribute('lang') || '').toLowerCase();